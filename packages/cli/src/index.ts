@@ -5,15 +5,19 @@ import {
 	getTokenManagerContract,
 	prepareStakeForQueryManager,
 	prepareStakeForStoreManager,
+	readFeeMultiplier,
 } from '@logsn/shared';
 import chalk from 'chalk';
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import Decimal from 'decimal.js';
 import { ethers } from 'ethers';
+import fs from 'fs';
 import jsonfile from 'jsonfile';
 import { mkdirp } from 'mkdirp';
 import os from 'os';
 import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 
 import { appPackageName, appVersion } from './env-config';
 import {
@@ -21,6 +25,8 @@ import {
 	bytesToMessage,
 	getLogStoreClient,
 	logger,
+	parseCsvColumns,
+	toQueryOptions,
 	withRetry,
 } from './utils';
 
@@ -40,8 +46,6 @@ function resolveHome(filepath = '') {
 const program = new Command();
 let configFilePath = resolveHome('~/.logstore-cli/default.json');
 
-const readFeeMultiplier = 0.05; // See validator code. Should optimised to read from network
-
 program
 	.name('Log Store CLI')
 	.description(
@@ -347,6 +351,157 @@ program
 					}
 				}
 			)
+	)
+	.addCommand(
+		new Command()
+			.name('request-withdraw')
+			.description(
+				'Request the withdrawal of funds staked for Query requests, which unlocks after the withdraw delay of the Query Manager Contract'
+			)
+			.action(async () => {
+				logger.debug('Command Params: ', options);
+
+				try {
+					const provider = new ethers.providers.JsonRpcProvider(options.host);
+					const signer = new ethers.Wallet(options.wallet, provider);
+					const queryManagerContract = await getQueryManagerContract(signer);
+					logger.info(`Requesting a withdrawal...`);
+
+					const tx = await withRetry(provider, (gasPrice) => {
+						return queryManagerContract.requestWithdraw({
+							gasPrice,
+						});
+					});
+					const receipt = await tx.wait();
+					const unlocksAt = await queryManagerContract.withdrawUnlocksAt(
+						signer.address
+					);
+
+					logger.info(
+						chalk.green(
+							`Successfully requested a withdrawal, which unlocks at ${new Date(
+								unlocksAt.toNumber() * 1000
+							).toISOString()} - Tx: ${receipt.transactionHash}`
+						)
+					);
+				} catch (e) {
+					logger.info(chalk.red('Withdraw request failed'));
+					logger.error(e);
+				}
+			})
+	)
+	.addCommand(
+		new Command()
+			.name('withdraw')
+			.description(
+				'Withdraw unused funds staked for Query requests, once their requested withdrawal has unlocked'
+			)
+			.argument(
+				'<amount>',
+				'Amount in Wei to withdraw from the Query Manager Contract.'
+			)
+			.action(async (amt: string) => {
+				const amount = BigInt(amt);
+				logger.debug('Command Params: ', {
+					amount,
+					...options,
+				});
+
+				try {
+					const provider = new ethers.providers.JsonRpcProvider(options.host);
+					const signer = new ethers.Wallet(options.wallet, provider);
+					const queryManagerContract = await getQueryManagerContract(signer);
+					logger.info(`Withdrawing ${amount}...`);
+
+					const tx = await withRetry(provider, (gasPrice) => {
+						return queryManagerContract.withdraw(amount, {
+							gasPrice,
+						});
+					});
+					const receipt = await tx.wait();
+
+					logger.info(
+						chalk.green(
+							`Successfully withdrew ${amount} - Tx: ${receipt.transactionHash}`
+						)
+					);
+				} catch (e) {
+					logger.info(chalk.red('Withdraw failed'));
+					logger.error(e);
+				}
+			})
+	)
+	.addCommand(
+		new Command()
+			.name('export')
+			.description(
+				'Query the messages of a stream and write their content as NDJSON or CSV'
+			)
+			.argument('<streamId>', 'Streamr Stream ID to query.')
+			.option('-p, --partition <number>', 'Partition of the stream', '0')
+			.option('--last <number>', 'Query the latest number of messages')
+			.option(
+				'--from <timestamp>',
+				'Query the messages from this timestamp, in milliseconds or an ISO date'
+			)
+			.option(
+				'--to <timestamp>',
+				'Query the messages up to this timestamp, in milliseconds or an ISO date'
+			)
+			.addOption(
+				new Option('-f, --format <format>', 'Output format')
+					.choices(['ndjson', 'csv'])
+					.default('ndjson')
+			)
+			.option(
+				'--columns <columns>',
+				'CSV columns as comma separated name=path pairs, e.g. time=$.timestamp,temperature=$.content.temperature'
+			)
+			.option('-o, --output <string>', 'File to write to instead of stdout')
+			.action(
+				async (
+					streamId: string,
+					cmdOptions: {
+						partition: string;
+						last?: string;
+						from?: string;
+						to?: string;
+						format: 'ndjson' | 'csv';
+						columns?: string;
+						output?: string;
+					}
+				) => {
+					logger.debug('Command Params: ', {
+						streamId,
+						...options,
+						...cmdOptions,
+					});
+
+					try {
+						const client = getLogStoreClient({ key: options.wallet });
+						const chunks = client.queryExport(
+							{ id: streamId, partition: parseInt(cmdOptions.partition) },
+							toQueryOptions(cmdOptions),
+							cmdOptions.format === 'csv'
+								? {
+										format: 'csv',
+										columns: parseCsvColumns(cmdOptions.columns),
+								  }
+								: { format: 'ndjson' }
+						);
+						const output = cmdOptions.output
+							? fs.createWriteStream(resolveHome(cmdOptions.output))
+							: process.stdout;
+						await pipeline(Readable.from(chunks), output);
+						if (cmdOptions.output) {
+							logger.info(chalk.green(`Exported to ${cmdOptions.output}`));
+						}
+					} catch (e) {
+						logger.info(chalk.red('Export failed'));
+						logger.error(e);
+					}
+				}
+			)
 	);
 
 program
@@ -452,6 +607,96 @@ program
 					}
 				}
 			)
+	)
+	.addCommand(
+		new Command()
+			.name('request-withdraw')
+			.description(
+				'Request the withdrawal of funds staked for the Storage of a stream, which unlocks after the withdraw delay of the Store Manager Contract'
+			)
+			.argument('<streamId>', 'Streamr Stream ID to withdraw the stake from.')
+			.action(async (streamId: string) => {
+				if (!streamId) {
+					throw new Error('Stream ID is invalid');
+				}
+				logger.debug('Command Params: ', {
+					streamId,
+					...options,
+				});
+
+				try {
+					const provider = new ethers.providers.JsonRpcProvider(options.host);
+					const signer = new ethers.Wallet(options.wallet, provider);
+					const storeManagerContract = await getStoreManagerContract(signer);
+					logger.info(`Requesting a withdrawal...`);
+					const tx = await withRetry(provider, (gasPrice) => {
+						return storeManagerContract.requestWithdraw(streamId, {
+							gasPrice,
+						});
+					});
+					const receipt = await tx.wait();
+					const unlocksAt = await storeManagerContract.withdrawUnlocksAt(
+						signer.address,
+						streamId
+					);
+
+					logger.info(
+						chalk.green(
+							`Successfully requested a withdrawal, which unlocks at ${new Date(
+								unlocksAt.toNumber() * 1000
+							).toISOString()} - Tx: ${receipt.transactionHash}`
+						)
+					);
+				} catch (e) {
+					logger.info(chalk.red('Withdraw request failed'));
+					logger.error(e);
+				}
+			})
+	)
+	.addCommand(
+		new Command()
+			.name('withdraw')
+			.description(
+				'Withdraw unused funds staked for the Storage of a stream, once their requested withdrawal has unlocked'
+			)
+			.argument('<streamId>', 'Streamr Stream ID to withdraw the stake from.')
+			.argument(
+				'<amount>',
+				'Amount in Wei to withdraw from the Store Manager Contract.'
+			)
+			.action(async (streamId: string, amt: string) => {
+				const amount = BigInt(amt);
+				if (!streamId) {
+					throw new Error('Stream ID is invalid');
+				}
+				logger.debug('Command Params: ', {
+					streamId,
+					amount,
+					...options,
+				});
+
+				try {
+					const provider = new ethers.providers.JsonRpcProvider(options.host);
+					const signer = new ethers.Wallet(options.wallet, provider);
+					const storeManagerContract = await getStoreManagerContract(signer);
+					logger.info(`Withdrawing ${amount}...`);
+					const tx = await withRetry(provider, (gasPrice) => {
+						return storeManagerContract.withdraw(streamId, amount, {
+							gasPrice,
+						});
+					});
+					const receipt = await tx.wait();
+
+					logger.info(
+						chalk.green(
+							`Successfully withdrew ${amount} - Tx: ${receipt.transactionHash}`
+						)
+					);
+				} catch (e) {
+					logger.info(chalk.red('Withdraw failed'));
+					logger.error(e);
+				}
+			})
 	);
 
 program
@@ -1,4 +1,4 @@
-import { LogStoreClient } from '@logsn/client';
+import { LogStoreClient, QueryCsvColumns, QueryOptions } from '@logsn/client';
 import { allowanceConfirmFn } from '@logsn/shared';
 import Decimal from 'decimal.js';
 import { ethers } from 'ethers';
@@ -90,3 +90,52 @@ export const withRetry = async (
 
 	return tx;
 };
+
+const parseTimestamp = (value: string) => {
+	const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+	if (Number.isNaN(timestamp)) {
+		throw new Error(`Invalid timestamp: ${value}`);
+	}
+	return timestamp;
+};
+
+export const toQueryOptions = ({
+	last,
+	from,
+	to,
+}: {
+	last?: string;
+	from?: string;
+	to?: string;
+}): QueryOptions => {
+	if (last !== undefined) {
+		return { last: parseInt(last) };
+	}
+	if (from === undefined) {
+		throw new Error('Either --last or --from has to be given');
+	}
+	if (to !== undefined) {
+		return {
+			from: { timestamp: parseTimestamp(from) },
+			to: { timestamp: parseTimestamp(to) },
+		};
+	}
+	return { from: { timestamp: parseTimestamp(from) } };
+};
+
+export const parseCsvColumns = (
+	columns?: string
+): QueryCsvColumns | undefined => {
+	if (!columns) {
+		return undefined;
+	}
+	return Object.fromEntries(
+		columns.split(',').map((column) => {
+			const [name, ...path] = column.split('=');
+			if (!name || path.length === 0) {
+				throw new Error(`Invalid CSV column: ${column}`);
+			}
+			return [name.trim(), path.join('=').trim()];
+		})
+	);
+};
@@ -26,6 +26,11 @@ export type StrictLogStoreClientConfig = MarkOptional<
 	contracts: Exclude<Required<LogStoreClientConfig['contracts']>, undefined>;
 	encryption: Exclude<Required<LogStoreClientConfig['encryption']>, undefined>;
 	cache: Exclude<Required<LogStoreClientConfig['cache']>, undefined>;
+	queries: Exclude<Required<LogStoreClientConfig['queries']>, undefined>;
+	nodeSelection: MarkOptional<
+		Exclude<Required<LogStoreClientConfig['nodeSelection']>, undefined>,
+		'region'
+	>;
 	// _timeouts: Exclude<DeepRequired<LogStoreClientConfig['_timeouts']>, undefined>;
 };
 
@@ -14,6 +14,10 @@ export const CONFIG_TEST: LogStoreClientConfig = {
 			'0x85ac4C8E780eae81Dd538053D596E382495f7Db9',
 		logStoreStoreManagerChainAddress:
 			'0x8560200b8E7477FB09281A0566B50fa6E7a66a34',
+		logStoreQueryManagerChainAddress:
+			'0x65d379f29BE436bD367699f3Dd7A436c54795a49',
+		logStoreReportManagerChainAddress:
+			'0x29DAE06145698A4Af8D54B91D0c6391C4B28102E',
 		logStoreTheGraphUrl: `http://${
 			process.env.STREAMR_DOCKER_DEV_HOST || '127.0.0.1'
 		}:8000/subgraphs/name/logstore-dev/network-contracts`,
@@ -1,5 +1,62 @@
+import { StreamMessage } from '@streamr/protocol';
+import { ethers } from 'ethers';
+
 export type Consensus = {
 	hash: string;
 	signer: string;
 	signature: string;
 };
+
+export class ConsensusError extends Error {
+	/** Staked nodes which did not sign the result */
+	public readonly missingSigners: string[];
+	/** Signers which are not staked nodes */
+	public readonly unknownSigners: string[];
+
+	constructor(
+		message: string,
+		missingSigners: string[] = [],
+		unknownSigners: string[] = []
+	) {
+		super(message);
+		this.missingSigners = missingSigners;
+		this.unknownSigners = unknownSigners;
+	}
+}
+
+/**
+ * Computes the hash of a query result incrementally, the same way as the nodes do:
+ * the signature of each message is chained to the hash of the preceding messages.
+ */
+export class ConsensusHash {
+	private hash = '';
+
+	update(message: Pick<StreamMessage, 'signature'>): void {
+		this.hash = ethers.utils.keccak256(
+			ethers.utils.toUtf8Bytes(this.hash + message.signature)
+		);
+	}
+
+	digest(): string {
+		return this.hash;
+	}
+}
+
+/**
+ * Passes the messages through, and once all of them are read, checks that they hash
+ * to the hash the nodes agreed on.
+ */
+export async function* verifyConsensusHash<
+	T extends Pick<StreamMessage, 'signature'>
+>(messages: AsyncIterable<T>, expectedHash: string): AsyncGenerator<T> {
+	const hash = new ConsensusHash();
+	for await (const message of messages) {
+		hash.update(message);
+		yield message;
+	}
+	if (hash.digest() !== expectedHash) {
+		throw new ConsensusError(
+			`Query result hash ${hash.digest()} does not match the consensus hash ${expectedHash}`
+		);
+	}
+}
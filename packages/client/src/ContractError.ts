@@ -0,0 +1,86 @@
+/**
+ * A transaction of the client was rejected, either when estimating its gas or when it was mined.
+ */
+export class ContractError extends Error {
+	/** The contract method which was called */
+	public readonly operation: string;
+	/** The revert reason of the contract, e.g. `error_notApproved`, if it could be decoded */
+	public readonly reason?: string;
+	public readonly cause: unknown;
+
+	constructor(operation: string, cause: unknown) {
+		const reason = decodeRevertReason(cause);
+		super(
+			reason !== undefined
+				? `${operation} reverted: ${reason}`
+				: `${operation} failed: ${
+						cause instanceof Error ? cause.message : String(cause)
+				  }`
+		);
+		this.operation = operation;
+		this.reason = reason;
+		this.cause = cause;
+	}
+}
+
+/** The fields of the errors thrown by ethers and the RPC providers which may carry the revert reason */
+interface ProviderError {
+	code?: unknown;
+	reason?: unknown;
+	message?: unknown;
+	error?: unknown;
+	data?: unknown;
+}
+
+// The codes of the ethers errors whose reason is the revert reason. Other errors, e.g. a network
+// error, have a reason too, which describes the error instead.
+const REVERT_ERROR_CODES = ['CALL_EXCEPTION', 'UNPREDICTABLE_GAS_LIMIT'];
+
+const REVERT_REASON_PATTERN =
+	/reverted with reason string '([^']*)'|execution reverted: ([^"\n]*)/;
+
+/**
+ * Finds the revert reason in the nested errors ethers and the RPC providers throw.
+ */
+export const decodeRevertReason = (err: unknown): string | undefined => {
+	const seen = new Set<unknown>();
+	const queue = [err];
+	while (queue.length > 0) {
+		const current = queue.shift();
+		if (typeof current !== 'object' || current === null || seen.has(current)) {
+			continue;
+		}
+		seen.add(current);
+		const { code, reason, message, error, data }: ProviderError = current;
+		if (
+			REVERT_ERROR_CODES.includes(code as string) &&
+			typeof reason === 'string' &&
+			reason.length > 0
+		) {
+			return reason.replace(/^execution reverted: /, '');
+		}
+		if (typeof message === 'string') {
+			const match = REVERT_REASON_PATTERN.exec(message);
+			if (match !== null) {
+				return match[1] ?? match[2];
+			}
+		}
+		// The contracts of the streamr client wrap the error of ethers as the reason of their error
+		queue.push(error, data, reason);
+	}
+	return undefined;
+};
+
+/**
+ * Runs a contract call, rethrowing its failure as a {@link ContractError}.
+ */
+export const withContractError = async <T>(
+	operation: string,
+	fn: () => Promise<T>
+): Promise<T> => {
+	try {
+		return await fn();
+	} catch (err) {
+		throw new ContractError(operation, err);
+	}
+};
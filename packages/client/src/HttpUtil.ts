@@ -13,12 +13,24 @@ import split2 from 'split2';
 import { Readable } from 'stream';
 import { inject, Lifecycle, scoped } from 'tsyringe';
 
-import { Consensus } from './Consensus';
+import {
+	LogStoreClientConfigInjectionToken,
+	StrictLogStoreClientConfig,
+} from './Config';
+import { Consensus, ConsensusError, verifyConsensusHash } from './Consensus';
+import { NodeManager } from './registry/NodeManager';
+import { SessionTokenManager } from './SessionTokenManager';
 import { getVersionString } from './utils/utils';
 
 export enum ErrorCode {
 	NOT_FOUND = 'NOT_FOUND',
 	VALIDATION_ERROR = 'VALIDATION_ERROR',
+	INSUFFICIENT_QUERY_STAKE = 'INSUFFICIENT_QUERY_STAKE',
+	RATE_LIMITED = 'RATE_LIMITED',
+	STREAM_NOT_STORED = 'STREAM_NOT_STORED',
+	UNAUTHORIZED = 'UNAUTHORIZED',
+	NODE_OVERLOADED = 'NODE_OVERLOADED',
+	SESSION_TOKEN_EXPIRED = 'SESSION_TOKEN_EXPIRED',
 	UNKNOWN = 'UNKNOWN',
 }
 
@@ -31,6 +43,8 @@ export class HttpError extends Error {
 	public body?: any;
 	public code: ErrorCode;
 	public errorCode: ErrorCode;
+	/** The URL of the node which responded with the error */
+	public nodeUrl?: string;
 
 	// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
 	constructor(
@@ -46,6 +60,9 @@ export class HttpError extends Error {
 		this.body = body;
 		this.code = errorCode || ErrorCode.UNKNOWN;
 		this.errorCode = this.code;
+		if (response?.url) {
+			this.nodeUrl = new URL(response.url).origin;
+		}
 	}
 }
 
@@ -63,59 +80,222 @@ export class NotFoundError extends HttpError {
 	}
 }
 
+const parseBody = (body: any): Record<string, unknown> => {
+	try {
+		const json = typeof body === 'string' ? JSON.parse(body) : body;
+		return typeof json === 'object' && json !== null ? json : {};
+	} catch {
+		return {};
+	}
+};
+
+const parseBigInt = (value: unknown): bigint | undefined => {
+	try {
+		return value !== undefined && value !== null
+			? BigInt(value as string)
+			: undefined;
+	} catch {
+		return undefined;
+	}
+};
+
+/**
+ * The delay in milliseconds the node asked for, from the `Retry-After` header (in seconds)
+ * or the `retryAfter` field of the body (in milliseconds).
+ */
+const parseRetryAfter = (
+	response: Response | undefined,
+	body: Record<string, unknown>
+): number | undefined => {
+	const header = response?.headers.get('retry-after');
+	if (header) {
+		const seconds = Number(header);
+		return Number.isNaN(seconds)
+			? Math.max(0, Date.parse(header) - Date.now())
+			: seconds * 1000;
+	}
+	return typeof body.retryAfter === 'number' ? body.retryAfter : undefined;
+};
+
+/**
+ * The query balance of the client doesn't cover the query.
+ */
+export class InsufficientQueryStakeError extends HttpError {
+	/** The query balance the query requires, in LSAN */
+	public readonly requiredStake?: bigint;
+	/** The query balance of the client, in LSAN */
+	public readonly balance?: bigint;
+
+	// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+	constructor(message: string, response?: Response, body?: any) {
+		super(message, response, body, ErrorCode.INSUFFICIENT_QUERY_STAKE);
+		const json = parseBody(body);
+		this.requiredStake = parseBigInt(json.requiredStake);
+		this.balance = parseBigInt(json.balance);
+	}
+}
+
+export class RateLimitedError extends HttpError {
+	/** Time in milliseconds to wait before querying the node again */
+	public readonly retryAfter?: number;
+
+	// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+	constructor(message: string, response?: Response, body?: any) {
+		super(message, response, body, ErrorCode.RATE_LIMITED);
+		this.retryAfter = parseRetryAfter(response, parseBody(body));
+	}
+}
+
+export class StreamNotStoredError extends HttpError {
+	public readonly streamId?: string;
+
+	// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+	constructor(message: string, response?: Response, body?: any) {
+		super(message, response, body, ErrorCode.STREAM_NOT_STORED);
+		const { streamId } = parseBody(body);
+		this.streamId = typeof streamId === 'string' ? streamId : undefined;
+	}
+}
+
+export class UnauthorizedError extends HttpError {
+	// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+	constructor(message: string, response?: Response, body?: any) {
+		super(message, response, body, ErrorCode.UNAUTHORIZED);
+	}
+}
+
+export class NodeOverloadedError extends HttpError {
+	/** Time in milliseconds to wait before querying the node again */
+	public readonly retryAfter?: number;
+
+	// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+	constructor(message: string, response?: Response, body?: any) {
+		super(message, response, body, ErrorCode.NODE_OVERLOADED);
+		this.retryAfter = parseRetryAfter(response, parseBody(body));
+	}
+}
+
+/**
+ * The node rejected the session token of the client as expired. The client signs a new token
+ * and retries the request once, so this surfaces only if the new token is rejected as well,
+ * e.g. when the clock of the client is off.
+ */
+export class SessionTokenExpiredError extends HttpError {
+	/** The expiry of the rejected token, in milliseconds since the epoch */
+	public readonly expiresAt?: number;
+
+	// eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
+	constructor(message: string, response?: Response, body?: any) {
+		super(message, response, body, ErrorCode.SESSION_TOKEN_EXPIRED);
+		const { expiresAt } = parseBody(body);
+		this.expiresAt = typeof expiresAt === 'number' ? expiresAt : undefined;
+	}
+}
+
+export interface QueryHttpResponse<T = StreamMessage> {
+	consensus: Consensus[];
+	messages: AsyncIterable<T>;
+}
+
 const ERROR_TYPES = new Map<ErrorCode, typeof HttpError>();
 ERROR_TYPES.set(ErrorCode.VALIDATION_ERROR, ValidationError);
 ERROR_TYPES.set(ErrorCode.NOT_FOUND, NotFoundError);
+ERROR_TYPES.set(
+	ErrorCode.INSUFFICIENT_QUERY_STAKE,
+	InsufficientQueryStakeError
+);
+ERROR_TYPES.set(ErrorCode.RATE_LIMITED, RateLimitedError);
+ERROR_TYPES.set(ErrorCode.STREAM_NOT_STORED, StreamNotStoredError);
+ERROR_TYPES.set(ErrorCode.UNAUTHORIZED, UnauthorizedError);
+ERROR_TYPES.set(ErrorCode.NODE_OVERLOADED, NodeOverloadedError);
+ERROR_TYPES.set(ErrorCode.SESSION_TOKEN_EXPIRED, SessionTokenExpiredError);
 ERROR_TYPES.set(ErrorCode.UNKNOWN, HttpError);
 
-const parseErrorCode = (body: string) => {
+// The error codes of the statuses which nodes may return without a body
+const STATUS_ERROR_CODES = new Map<number, ErrorCode>([
+	[401, ErrorCode.UNAUTHORIZED],
+	[403, ErrorCode.UNAUTHORIZED],
+	[429, ErrorCode.RATE_LIMITED],
+	[503, ErrorCode.NODE_OVERLOADED],
+]);
+
+const parseErrorCode = (body: string, status: number) => {
 	let json;
 	try {
 		json = JSON.parse(body);
 	} catch (err) {
-		return ErrorCode.UNKNOWN;
+		json = {};
 	}
 
-	const { code } = json;
-	return code in ErrorCode ? code : ErrorCode.UNKNOWN;
+	const { code } = json ?? {};
+	return code in ErrorCode
+		? code
+		: STATUS_ERROR_CODES.get(status) ?? ErrorCode.UNKNOWN;
 };
 
 @scoped(Lifecycle.ContainerScoped)
 export class HttpUtil {
-	private authentication: Authentication;
+	private readonly authentication: Authentication;
+	private readonly sessionTokenManager: SessionTokenManager;
+	private readonly nodeManager: NodeManager;
+	private readonly config: Pick<StrictLogStoreClientConfig, 'queries'>;
 	private readonly logger: Logger;
 
 	constructor(
 		@inject(AuthenticationInjectionToken)
 		authentication: Authentication,
+		@inject(SessionTokenManager)
+		sessionTokenManager: SessionTokenManager,
+		@inject(NodeManager)
+		nodeManager: NodeManager,
+		@inject(LogStoreClientConfigInjectionToken)
+		config: Pick<StrictLogStoreClientConfig, 'queries'>,
 		@inject(LoggerFactory)
 		loggerFactory: LoggerFactory
 	) {
 		this.authentication = authentication;
+		this.sessionTokenManager = sessionTokenManager;
+		this.nodeManager = nodeManager;
+		this.config = config;
 		this.logger = loggerFactory.createLogger(module);
 	}
 
 	async *fetchHttpStream(
 		url: string,
-		abortController = new AbortController()
+		abortController = new AbortController(),
+		onBytes?: (bytes: number) => void
 	): AsyncIterable<StreamMessage> {
-		const authUser = await this.authentication.getAddress();
-		const authPassword = await this.authentication.createMessageSignature(
-			authUser
+		const { consensus, messages } = await this.fetchQueryResponse(
+			url,
+			abortController,
+			onBytes
 		);
+		yield* verifyConsensusHash(messages, consensus[0].hash);
+	}
 
-		const response = await fetchResponse(url, this.logger, {
+	/**
+	 * Fetches a query and verifies the consensus of the nodes on its result.
+	 * The messages are not read from the response until they are iterated,
+	 * `onBytes` is then called with the size of each chunk read.
+	 * Each line of the response is a message, deserialized with `parseLine`.
+	 */
+	async fetchQueryResponse<T = StreamMessage>(
+		url: string,
+		abortController = new AbortController(),
+		onBytes?: (bytes: number) => void,
+		parseLine: (line: string) => T = (line: string) =>
+			StreamMessage.deserialize(line) as T
+	): Promise<QueryHttpResponse<T>> {
+		const response = await this.fetchAuthenticated(url, {
 			signal: abortController.signal,
-			headers: {
-				Authorization: `Basic ${Base64.encode(`${authUser}:${authPassword}`)}`,
-			},
 		});
 		if (!response.body) {
 			throw new Error('No Response Body');
 		}
 
+		let consensus: Consensus[];
 		try {
-			const consensus = JSON.parse(
+			consensus = JSON.parse(
 				response.headers.get('consensus') ?? ''
 			) as Consensus[];
 
@@ -132,9 +312,117 @@ export class HttpUtil {
 				}
 			}
 		} catch {
-			throw new Error('No consensus');
+			throw new ConsensusError('No consensus');
+		}
+		await this.verifyConsensusSigners(consensus);
+
+		return {
+			consensus,
+			messages: this.readMessages(
+				response,
+				abortController,
+				onBytes,
+				parseLine
+			),
+		};
+	}
+
+	/**
+	 * Checks that the signers are staked nodes, and that the `queries.consensusQuorum` share
+	 * of the staked nodes have signed. Without a quorum the signers are not checked,
+	 * so that the node registry is not read for every query.
+	 */
+	private async verifyConsensusSigners(consensus: Consensus[]): Promise<void> {
+		const { consensusQuorum } = this.config.queries;
+		if (!(consensusQuorum > 0)) {
+			return;
+		}
+		const stakedNodes = await this.nodeManager.getStakedNodeAddresses();
+		const signers = new Set(
+			consensus.map(({ signer }) => toEthereumAddress(signer))
+		);
+
+		const unknownSigners = [...signers].filter(
+			(signer) => !stakedNodes.includes(signer)
+		);
+		const missingSigners = stakedNodes.filter((node) => !signers.has(node));
+		const quorum = Math.ceil(consensusQuorum * stakedNodes.length);
+		const signedCount = stakedNodes.length - missingSigners.length;
+
+		if (unknownSigners.length > 0) {
+			throw new ConsensusError(
+				`Consensus signed by unknown nodes: ${unknownSigners.join(', ')}`,
+				missingSigners,
+				unknownSigners
+			);
+		}
+		if (signedCount < quorum) {
+			throw new ConsensusError(
+				`Consensus signed by ${signedCount} of the required ${quorum} nodes`,
+				missingSigners,
+				unknownSigners
+			);
+		}
+	}
+
+	/**
+	 * Fetches an authenticated JSON response.
+	 */
+	async fetchJson<T>(url: string): Promise<T> {
+		const response = await this.fetchAuthenticated(url);
+		return (await response.json()) as T;
+	}
+
+	/**
+	 * Fetches with the session token of the client. If the node rejects the token as expired,
+	 * the request is retried once with a new token.
+	 */
+	private async fetchAuthenticated(
+		url: string,
+		opts: Record<string, unknown> = {}
+	): Promise<Response> {
+		try {
+			return await fetchResponse(url, this.logger, {
+				...opts,
+				headers: await this.createAuthHeaders(),
+			});
+		} catch (err) {
+			if (!(err instanceof SessionTokenExpiredError)) {
+				throw err;
+			}
+			this.sessionTokenManager.invalidate();
+			return fetchResponse(url, this.logger, {
+				...opts,
+				headers: await this.createAuthHeaders(),
+			});
 		}
+	}
 
+	/**
+	 * A session token if enabled by the `queries.sessionTokens` config, or the address
+	 * and its signature otherwise.
+	 */
+	private async createAuthHeaders(): Promise<Record<string, string>> {
+		if (this.config.queries.sessionTokens) {
+			return {
+				Authorization: `Bearer ${await this.sessionTokenManager.getToken()}`,
+			};
+		}
+		const authUser = await this.authentication.getAddress();
+		const authPassword = await this.authentication.createMessageSignature(
+			authUser
+		);
+		return {
+			Authorization: `Basic ${Base64.encode(`${authUser}:${authPassword}`)}`,
+		};
+	}
+
+	private async *readMessages<T>(
+		response: Response,
+		abortController: AbortController,
+		onBytes: ((bytes: number) => void) | undefined,
+		parseLine: (line: string) => T
+	): AsyncIterable<T> {
 		let stream: Readable | undefined;
 		try {
 			// in the browser, response.body will be a web stream. Convert this into a node stream.
@@ -142,9 +430,13 @@ export class HttpUtil {
 				response.body as unknown as ReadableStream | Readable
 			);
 
+			if (onBytes) {
+				source.on('data', (chunk: Buffer | string) => onBytes(chunk.length));
+			}
+
 			stream = source.pipe(
 				split2((message: string) => {
-					return StreamMessage.deserialize(message);
+					return parseLine(message);
 				})
 			);
 
@@ -211,7 +503,7 @@ async function fetchResponse(
 	}
 
 	const body = await response.text();
-	const errorCode = parseErrorCode(body);
+	const errorCode = parseErrorCode(body, response.status);
 	const ErrorClass = ERROR_TYPES.get(errorCode)!;
 	throw new ErrorClass(
 		`Request to ${url} returned with error code ${response.status}.`,
@@ -5,6 +5,7 @@ import type {
 	StreamDefinition,
 } from '@logsn/streamr-client';
 import { StreamrClient } from '@logsn/streamr-client';
+import type { EthereumAddress } from '@streamr/utils';
 import { cloneDeep } from 'lodash';
 import 'reflect-metadata';
 import { container as rootContainer } from 'tsyringe';
@@ -16,11 +17,47 @@ import {
 } from './Config';
 import { LogStoreClientEventEmitter, LogStoreClientEvents } from './events';
 import { LogStoreClientConfig } from './LogStoreClientConfig';
-import { Queries, QueryOptions } from './Queries';
-import { LogStoreRegistry } from './registry/LogStoreRegistry';
+import { NodeMetadataOptions } from './NodeMetadata';
+import {
+	Queries,
+	QueryAggregateBucket,
+	QueryAggregateOptions,
+	QueryEstimate,
+	QueryFromOptions,
+	QueryGapFillOptions,
+	QueryOptions,
+	QueryPage,
+	QueryPageOptions,
+} from './Queries';
+import {
+	exportQueryRecords,
+	QueryExportOptions,
+	QueryRecord,
+} from './QueryExport';
+import { LogStoreRegistry, StoreInfo } from './registry/LogStoreRegistry';
+import { NodeManager } from './registry/NodeManager';
+import {
+	NodeJoinResult,
+	NodeRegistry,
+	NodeTransactionResult,
+	NodeUpdatedResult,
+	StakeDelegateResult,
+} from './registry/NodeRegistry';
+import { LogStoreNode } from './registry/NodeSelection';
+import { LogStoreReport, ReportRegistry } from './registry/ReportRegistry';
+import {
+	QueryUsage,
+	StoreUsage,
+	UsageRange,
+	UsageRegistry,
+} from './registry/UsageRegistry';
 
 export class LogStoreClient extends StreamrClient {
 	private readonly logStoreRegistry: LogStoreRegistry;
+	private readonly logStoreNodeManager: NodeManager;
+	private readonly logStoreNodeRegistry: NodeRegistry;
+	private readonly logStoreReportRegistry: ReportRegistry;
+	private readonly logStoreUsageRegistry: UsageRegistry;
 	private readonly logStoreQueries: Queries;
 	private readonly logStoreClientEventEmitter: LogStoreClientEventEmitter;
 
@@ -35,7 +72,11 @@ export class LogStoreClient extends StreamrClient {
 		const streamrClientConfig = cloneDeep(config);
 		delete streamrClientConfig.contracts?.logStoreNodeManagerChainAddress;
 		delete streamrClientConfig.contracts?.logStoreStoreManagerChainAddress;
+		delete streamrClientConfig.contracts?.logStoreQueryManagerChainAddress;
+		delete streamrClientConfig.contracts?.logStoreReportManagerChainAddress;
 		delete streamrClientConfig.contracts?.logStoreTheGraphUrl;
+		delete streamrClientConfig.queries;
+		delete streamrClientConfig.nodeSelection;
 
 		super(streamrClientConfig, container);
 		// TODO: Using parentContainer breaks authentication in the Broker's tests
@@ -58,6 +99,16 @@ export class LogStoreClient extends StreamrClient {
 		this.logStoreRegistry =
 			container.resolve<LogStoreRegistry>(LogStoreRegistry);
 
+		this.logStoreNodeManager = container.resolve<NodeManager>(NodeManager);
+
+		this.logStoreNodeRegistry = container.resolve<NodeRegistry>(NodeRegistry);
+
+		this.logStoreReportRegistry =
+			container.resolve<ReportRegistry>(ReportRegistry);
+
+		this.logStoreUsageRegistry =
+			container.resolve<UsageRegistry>(UsageRegistry);
+
 		this.logStoreQueries = container.resolve<Queries>(Queries);
 	}
 
@@ -72,6 +123,21 @@ export class LogStoreClient extends StreamrClient {
 		return this.logStoreRegistry.queryStake(amount, { usd: options.usd });
 	}
 
+	/**
+	 * Request the withdrawal of funds staked for queries.
+	 * @returns the time in milliseconds the withdrawal unlocks at
+	 */
+	async requestQueryStakeWithdrawal(): Promise<number> {
+		return this.logStoreRegistry.requestQueryStakeWithdrawal();
+	}
+
+	/**
+	 * Withdraw funds staked for queries, once their withdrawal has unlocked
+	 */
+	async withdrawQueryStake(amount: bigint): Promise<void> {
+		return this.logStoreRegistry.withdrawQueryStake(amount);
+	}
+
 	/**
 	 * Performs a query of stored historical data.
 	 *
@@ -101,6 +167,181 @@ export class LogStoreClient extends StreamrClient {
 		return messageStream;
 	}
 
+	/**
+	 * Queries the stored messages from a point in time, and then keeps delivering the live messages
+	 * of the stream. The live messages published while the query runs are buffered, and the ones
+	 * already returned by the query are skipped, so that no message is missed or delivered twice.
+	 *
+	 * @param streamDefinition - the stream partition to subscribe to
+	 * @param options - the point in time to query the messages from
+	 * @param onMessage - callback will be invoked for each message, historical or live
+	 * @returns a {@link MessageStream} of the historical and then the live messages. Ending it unsubscribes.
+	 */
+	async subscribeWithHistory(
+		streamDefinition: StreamDefinition,
+		options: QueryFromOptions,
+		onMessage?: MessageListener
+	): Promise<MessageStream> {
+		const streamPartId = await this.streamIdBuilder.toStreamPartID(
+			streamDefinition
+		);
+		const messageStream = await this.logStoreQueries.subscribeWithHistory(
+			streamPartId,
+			() => this.subscribe(streamDefinition),
+			options
+		);
+		if (onMessage !== undefined) {
+			messageStream.useLegacyOnMessageHandler(onMessage);
+		}
+		return messageStream;
+	}
+
+	/**
+	 * Subscribes to the live messages of a stream, and recovers the messages the subscription misses
+	 * from LogStore. When the sequence of a publisher's message chain jumps, the missing messages are
+	 * queried before the later messages are delivered. A `queryGapFill` event reports each gap.
+	 *
+	 * @param streamDefinition - the stream partition to subscribe to
+	 * @param options - how long the later messages are held back while the missing ones are queried
+	 * @param onMessage - callback will be invoked for each message, live or recovered
+	 * @returns a {@link MessageStream} of the messages in the order of their message chains. Ending it unsubscribes.
+	 */
+	async subscribeWithGapFill(
+		streamDefinition: StreamDefinition,
+		options?: QueryGapFillOptions,
+		onMessage?: MessageListener
+	): Promise<MessageStream> {
+		const streamPartId = await this.streamIdBuilder.toStreamPartID(
+			streamDefinition
+		);
+		const messageStream = await this.logStoreQueries.subscribeWithGapFill(
+			streamPartId,
+			() => this.subscribe(streamDefinition),
+			options
+		);
+		if (onMessage !== undefined) {
+			messageStream.useLegacyOnMessageHandler(onMessage);
+		}
+		return messageStream;
+	}
+
+	/**
+	 * Performs a query of stored historical data, returning the messages as decoded by the node.
+	 * Suits consumers of the content only, as the messages don't go through the deserialization,
+	 * decryption and validation of a {@link MessageStream}.
+	 *
+	 * @param streamDefinition - the stream partition for which data should be queried
+	 * @param options - defines the kind of query that should be performed
+	 * @returns an async iterable of the records of the messages
+	 */
+	async *queryRecords(
+		streamDefinition: StreamDefinition,
+		options: QueryOptions
+	): AsyncGenerator<QueryRecord> {
+		const streamPartId = await this.streamIdBuilder.toStreamPartID(
+			streamDefinition
+		);
+		yield* this.logStoreQueries.records(streamPartId, options);
+	}
+
+	/**
+	 * Performs a query of stored historical data and writes the messages as NDJSON or CSV.
+	 *
+	 * @param streamDefinition - the stream partition for which data should be queried
+	 * @param options - defines the kind of query that should be performed
+	 * @param exportOptions - the format to write, and the columns of a CSV
+	 * @returns an async iterable of the chunks of text to write, one per line
+	 */
+	async *queryExport(
+		streamDefinition: StreamDefinition,
+		options: QueryOptions,
+		exportOptions: QueryExportOptions
+	): AsyncGenerator<string> {
+		yield* exportQueryRecords(
+			this.queryRecords(streamDefinition, options),
+			exportOptions
+		);
+	}
+
+	/**
+	 * Performs an aggregation of stored historical data on the node, returning the aggregates of
+	 * a numeric content field for each time bucket instead of the messages.
+	 *
+	 * @param streamDefinition - the stream partition for which data should be aggregated
+	 * @param options - the time range, the field, the bucket interval and the aggregates to compute
+	 * @returns an async iterable of the buckets in the order of their timestamps
+	 */
+	async *queryAggregate(
+		streamDefinition: StreamDefinition,
+		options: QueryAggregateOptions
+	): AsyncGenerator<QueryAggregateBucket> {
+		const streamPartId = await this.streamIdBuilder.toStreamPartID(
+			streamDefinition
+		);
+		yield* this.logStoreQueries.aggregate(streamPartId, options);
+	}
+
+	/**
+	 * Estimates the size and the cost of a query without performing it.
+	 *
+	 * @param streamDefinition - the stream partition for which data would be queried
+	 * @param options - defines the kind of query that would be performed
+	 * @returns the number of messages and bytes the query would return, its cost and the query balance of the client
+	 */
+	async estimateQuery(
+		streamDefinition: StreamDefinition,
+		options: QueryOptions
+	): Promise<QueryEstimate> {
+		const streamPartId = await this.streamIdBuilder.toStreamPartID(
+			streamDefinition
+		);
+		return this.logStoreQueries.estimate(streamPartId, options);
+	}
+
+	/**
+	 * Performs a query of stored historical data on all the partitions of a stream.
+	 *
+	 * @param streamIdOrPath - the stream for which data should be queried
+	 * @param options - defines the kind of query that should be performed on each partition
+	 * @param onMessage - callback will be invoked for each message retrieved
+	 * @returns a {@link MessageStream} of the messages of all the partitions, ordered by timestamp and sequence number
+	 */
+	async queryAllPartitions(
+		streamIdOrPath: string,
+		options: QueryOptions,
+		onMessage?: MessageListener
+	): Promise<MessageStream> {
+		const stream = await this.getStream(streamIdOrPath);
+		const messageStream = await this.logStoreQueries.queryAllPartitions(
+			stream.getStreamParts(),
+			options
+		);
+		if (onMessage !== undefined) {
+			messageStream.useLegacyOnMessageHandler(onMessage);
+		}
+		return messageStream;
+	}
+
+	/**
+	 * Performs a query of stored historical data and delivers the messages in pages.
+	 *
+	 * @param streamDefinition - the stream partition for which data should be queried
+	 * @param options - defines the kind of query that should be performed
+	 * @param pageOptions - the size of the pages, and optionally the cursor of a page to continue after
+	 * @returns an async iterable of pages, each carrying a cursor which can be persisted to continue the
+	 * query later on
+	 */
+	async *queryPages(
+		streamDefinition: StreamDefinition,
+		options: QueryOptions,
+		pageOptions: QueryPageOptions
+	): AsyncGenerator<QueryPage> {
+		const streamPartId = await this.streamIdBuilder.toStreamPartID(
+			streamDefinition
+		);
+		yield* this.logStoreQueries.queryPages(streamPartId, options, pageOptions);
+	}
+
 	// --------------------------------------------------------------------------------------------
 	// LogStore
 	// --------------------------------------------------------------------------------------------
@@ -115,6 +356,21 @@ export class LogStoreClient extends StreamrClient {
 		return this.logStoreRegistry.stakeOrCreateStore(streamIdOrPath, amount);
 	}
 
+	/**
+	 * Request the withdrawal of funds staked on a stream from LogStore.
+	 * @returns the time in milliseconds the withdrawal unlocks at
+	 */
+	async requestStoreWithdrawal(streamIdOrPath: string): Promise<number> {
+		return this.logStoreRegistry.requestStoreWithdrawal(streamIdOrPath);
+	}
+
+	/**
+	 * Withdraw funds staked on a stream from LogStore, once their withdrawal has unlocked.
+	 */
+	async withdrawStore(streamIdOrPath: string, amount: bigint): Promise<void> {
+		return this.logStoreRegistry.withdrawStore(streamIdOrPath, amount);
+	}
+
 	/**
 	 * Checks whether a stream is assigned to a storage node.
 	 */
@@ -122,6 +378,14 @@ export class LogStoreClient extends StreamrClient {
 		return this.logStoreRegistry.isLogStoreStream(streamIdOrPath);
 	}
 
+	/**
+	 * Gets the stake left in the store of a stream, its stakeholders and how much of it is
+	 * staked by the client, the bytes stored, and an estimate of when the stake runs out.
+	 */
+	async getStoreInfo(streamIdOrPath: string): Promise<StoreInfo> {
+		return this.logStoreRegistry.getStoreInfo(streamIdOrPath);
+	}
+
 	/**
 	 * Gets all streams assigned to a storage node.
 	 *
@@ -134,6 +398,143 @@ export class LogStoreClient extends StreamrClient {
 		return this.logStoreRegistry.getStoredStreams();
 	}
 
+	/**
+	 * Gets the nodes registered in the LogStore network which serve queries.
+	 *
+	 * The directory of the nodes is kept up to date from the events of the node manager contract,
+	 * and the `nodeJoined` and `nodeLeft` events are emitted when it changes.
+	 *
+	 * @returns a list of {@link LogStoreNode} with the address, metadata, stake and staked status of each node
+	 */
+	async getNodes(): Promise<LogStoreNode[]> {
+		return this.logStoreNodeManager.getNodes();
+	}
+
+	/**
+	 * Gets a report accepted by the LogStore network, which bills the streams and the consumers
+	 * for the data stored and queried. The hash of the report is recomputed, and checked against
+	 * the proofs of the nodes which signed it.
+	 *
+	 * @returns the {@link LogStoreReport}, or undefined if no report with the id was accepted. Rejects
+	 * with a {@link ReportVerificationError} if a proof does not sign the hash of the report.
+	 */
+	async getReport(id: string): Promise<LogStoreReport | undefined> {
+		return this.logStoreReportRegistry.getReport(id);
+	}
+
+	/**
+	 * Gets the latest report accepted by the LogStore network, verified like {@link getReport}.
+	 */
+	async getLastReport(): Promise<LogStoreReport | undefined> {
+		return this.logStoreReportRegistry.getLastReport();
+	}
+
+	/**
+	 * Gets the nodes which can submit reports, ordered by their reputation.
+	 */
+	async getReporters(): Promise<EthereumAddress[]> {
+		return this.logStoreReportRegistry.getReporters();
+	}
+
+	/**
+	 * Gets the history of the data stored for a stream, and of the captures which exceeded
+	 * its stake.
+	 */
+	async getStoreUsage(
+		streamIdOrPath: string,
+		range?: UsageRange
+	): Promise<StoreUsage> {
+		return this.logStoreUsageRegistry.getStoreUsage(streamIdOrPath, range);
+	}
+
+	/**
+	 * Gets the history of the queries of a consumer, by default the client, and of the
+	 * captures which exceeded its query stake.
+	 */
+	async getQueryUsage(
+		consumer?: EthereumAddress,
+		range?: UsageRange
+	): Promise<QueryUsage> {
+		return this.logStoreUsageRegistry.getQueryUsage(consumer, range);
+	}
+
+	// --------------------------------------------------------------------------------------------
+	// Node operation
+	// --------------------------------------------------------------------------------------------
+
+	/**
+	 * Registers the client as a node of the LogStore network, and stakes the amount on it.
+	 * The node manager contract is approved to transfer the amount if its allowance is not enough.
+	 */
+	async joinAsNode(
+		amount: bigint,
+		metadata: NodeMetadataOptions,
+		options = { usd: false }
+	): Promise<NodeJoinResult> {
+		return this.logStoreNodeRegistry.join(amount, metadata, options);
+	}
+
+	/**
+	 * Withdraws the stake of the node of the client, and unregisters it.
+	 */
+	async leaveAsNode(): Promise<NodeTransactionResult> {
+		return this.logStoreNodeRegistry.leave();
+	}
+
+	/**
+	 * Registers the client as a node, or updates the metadata of its node.
+	 */
+	async upsertNode(metadata: NodeMetadataOptions): Promise<NodeUpdatedResult> {
+		return this.logStoreNodeRegistry.upsertNode(metadata);
+	}
+
+	/**
+	 * Stakes the amount in the node manager contract, to be delegated to nodes.
+	 */
+	async nodeStake(
+		amount: bigint,
+		options = { usd: false }
+	): Promise<NodeTransactionResult> {
+		return this.logStoreNodeRegistry.stake(amount, options);
+	}
+
+	/**
+	 * Delegates the amount of the stake of the client to a node.
+	 */
+	async delegateStake(
+		amount: bigint,
+		nodeAddress: EthereumAddress
+	): Promise<StakeDelegateResult> {
+		return this.logStoreNodeRegistry.delegate(amount, nodeAddress);
+	}
+
+	/**
+	 * Takes back the amount of the stake the client delegated to a node.
+	 */
+	async undelegateStake(
+		amount: bigint,
+		nodeAddress: EthereumAddress
+	): Promise<StakeDelegateResult> {
+		return this.logStoreNodeRegistry.undelegate(amount, nodeAddress);
+	}
+
+	/**
+	 * Withdraws the amount of the stake of the client which is not delegated to a node.
+	 */
+	async withdrawNodeStake(amount: bigint): Promise<NodeTransactionResult> {
+		return this.logStoreNodeRegistry.withdraw(amount);
+	}
+
+	/**
+	 * Takes back the amount the client delegated to a node, and withdraws it.
+	 */
+	async undelegateWithdrawStake(
+		amount: bigint,
+		nodeAddress: EthereumAddress
+	): Promise<StakeDelegateResult> {
+		return this.logStoreNodeRegistry.undelegateWithdraw(amount, nodeAddress);
+	}
+
 	/**
 	 * Destroys an instance of a {@link StreamrClient} by disconnecting from peers, clearing any pending tasks, and
 	 * freeing up resources. This should be called once a user is done with the instance.
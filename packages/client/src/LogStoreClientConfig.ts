@@ -1,9 +1,84 @@
 import type { StreamrClientConfig } from '@logsn/streamr-client';
 
+import type { NodeSelectionStrategy } from './registry/NodeSelection';
+
 export interface LogStoreClientConfig extends StreamrClientConfig {
 	contracts?: StreamrClientConfig['contracts'] & {
 		logStoreNodeManagerChainAddress?: string;
 		logStoreStoreManagerChainAddress?: string;
+		logStoreQueryManagerChainAddress?: string;
+		logStoreReportManagerChainAddress?: string;
 		logStoreTheGraphUrl?: string;
 	};
+	queries?: {
+		/**
+		 * How many other nodes a query is retried against when a node fails
+		 * or becomes unresponsive in the middle of a query.
+		 */
+		retries?: number;
+		/**
+		 * Time in milliseconds a node may stay silent during a query before
+		 * it is considered unresponsive and the query fails over to another node.
+		 */
+		attemptTimeout?: number;
+		/**
+		 * How many partitions of a stream are open at a time when querying all partitions of a stream.
+		 * A partition is read to its end before the next one is opened, and its messages are buffered
+		 * until they are merged.
+		 */
+		partitionConcurrency?: number;
+		/**
+		 * Interval in milliseconds at which the progress of a running query is reported.
+		 */
+		progressInterval?: number;
+		/**
+		 * The share of the staked nodes (0 to 1) which have to sign the result of a query
+		 * for the result to be accepted. With a share set, the result is also rejected if any
+		 * of its signers is not a staked node. No share is required by default.
+		 */
+		consensusQuorum?: number;
+		/**
+		 * Time in milliseconds the live messages of a subscription with gap filling are held back
+		 * while the messages missing before them are queried. The query is repeated within this time
+		 * until all the missing messages are found, after which the gap is given up on.
+		 */
+		maxGapWait?: number;
+		/**
+		 * Whether the query balance missing for a query is staked automatically when a node
+		 * rejects the query for an insufficient query stake, before retrying it.
+		 */
+		autoStake?: boolean;
+		/**
+		 * Whether the queries are authenticated with session tokens, which the nodes have to support,
+		 * instead of the address of the client and its signature.
+		 */
+		sessionTokens?: boolean;
+		/**
+		 * Lifetime in milliseconds of the session tokens authenticating the queries of the client.
+		 * A token is signed once and reused by the queries until it is about to expire.
+		 */
+		sessionTokenTtl?: number;
+	};
+	nodeSelection?: {
+		/**
+		 * The order in which the nodes are tried by a query.
+		 */
+		strategy?: NodeSelectionStrategy;
+		/**
+		 * The HTTP endpoints of the nodes used by the pinned strategy, in the order they are tried.
+		 */
+		pinnedUrls?: string[];
+		/**
+		 * The region of the nodes preferred by the region strategy, as declared in the node metadata.
+		 */
+		region?: string;
+		/**
+		 * How many failures in a row demote a node, so that it is tried after the other nodes.
+		 */
+		maxFailures?: number;
+		/**
+		 * Time in milliseconds after the last failure of a demoted node until it is tried in order again.
+		 */
+		failureCooldown?: number;
+	};
 }
@@ -1,3 +1,25 @@
-export type NodeMetadata = {
-	http: string;
+import { NodeMetadata, SystemMessage } from '@logsn/protocol';
+
+export {
+	createNodeMetadata,
+	NodeMetadata,
+	NodeMetadataOptions,
+	parseNodeMetadata,
+	serializeNodeMetadata,
+	updateNodeMetadata,
+} from '@logsn/protocol';
+
+/**
+ * The reason the client cannot query a node, or undefined if it can.
+ */
+export const getUnsupportedNodeReason = (
+	metadata: NodeMetadata
+): string | undefined => {
+	const supportedVersions = SystemMessage.getSupportedVersions();
+	if (!supportedVersions.includes(metadata.protocolVersion)) {
+		return `protocol version ${
+			metadata.protocolVersion
+		} is not one of the supported versions [${supportedVersions.join(', ')}]`;
+	}
+	return undefined;
 };
@@ -1,31 +1,98 @@
+import { readFeeMultiplier } from '@logsn/shared';
 import {
+	collect,
 	counting,
 	createSubscribePipeline,
 	DestroySignal,
 	GroupKeyManager,
 	IResends,
 	LoggerFactory,
+	Message,
 	MessageStream,
 	StreamPartID,
 	StreamrClientError,
 	StreamRegistryCached,
 	StrictStreamrClientConfig,
+	Subscription,
 } from '@logsn/streamr-client';
-import { StreamPartIDUtils } from '@streamr/protocol';
-import { EthereumAddress, Logger, toEthereumAddress } from '@streamr/utils';
+import {
+	MessageRef,
+	StreamMessage,
+	StreamPartIDUtils,
+} from '@streamr/protocol';
+import {
+	EthereumAddress,
+	Logger,
+	toEthereumAddress,
+	wait,
+} from '@streamr/utils';
+import { countBy, maxBy } from 'lodash';
 import { delay, inject, Lifecycle, scoped } from 'tsyringe';
 
-import { LogStoreClientConfigInjectionToken } from './Config';
-import { HttpUtil } from './HttpUtil';
+import {
+	LogStoreClientConfigInjectionToken,
+	StrictLogStoreClientConfig,
+} from './Config';
+import { ConsensusError, verifyConsensusHash } from './Consensus';
+import { LogStoreClientEventEmitter } from './events';
+import {
+	HttpUtil,
+	InsufficientQueryStakeError,
+	NodeOverloadedError,
+	QueryHttpResponse,
+	RateLimitedError,
+	StreamNotStoredError,
+	UnauthorizedError,
+	ValidationError,
+} from './HttpUtil';
+import {
+	createQueryFingerprint,
+	decodeQueryCursor,
+	encodeQueryCursor,
+	isCursorMessage,
+	QueryCursorPosition,
+} from './QueryCursor';
+import { QueryRecord } from './QueryExport';
+import {
+	matchesQueryFilters,
+	parseQueryFilterPath,
+	QueryFilter,
+	validateQueryFilters,
+} from './QueryFilter';
+import { LogStoreRegistry } from './registry/LogStoreRegistry';
 import { NodeManager } from './registry/NodeManager';
-import { counterId } from './utils/utils';
+import { toStreamMessage } from './utils/messages';
+import { pLimitFn } from './utils/promises';
+import { counterId, unrefTimer } from './utils/utils';
 
 const MIN_SEQUENCE_NUMBER_VALUE = 0;
+// The upper bound of a query up to the end of a timestamp
+const MAX_SEQUENCE_NUMBER_VALUE = 2147483647;
 
 export enum QueryType {
 	Last = 'last',
 	From = 'from',
 	Range = 'range',
+	Aggregate = 'aggregate',
+	LastBefore = 'lastBefore',
+}
+
+export enum AggregateFunction {
+	Count = 'count',
+	Sum = 'sum',
+	Min = 'min',
+	Max = 'max',
+	Avg = 'avg',
+}
+
+/**
+ * The formats the nodes can return the messages of a query in.
+ */
+enum QueryResponseFormat {
+	/** A serialized StreamMessage per line */
+	Raw = 'raw',
+	/** A {@link QueryRecord} decoded by the node per line */
+	Object = 'object',
 }
 
 type QueryDict = Record<string, string | number | boolean | null | undefined>;
@@ -35,17 +102,45 @@ export interface QueryRef {
 	sequenceNumber?: number;
 }
 
+/**
+ * Options shared by all query types.
+ */
+export interface QueryBaseOptions {
+	/**
+	 * Sends the query to this many nodes in parallel and returns the result the majority of them agreed on.
+	 * Nodes which returned a different result are reported with the `queryDivergence` event.
+	 */
+	fanOut?: number;
+	/**
+	 * Cancels the query when aborted. The query then rejects with a {@link QueryCancelledError}.
+	 */
+	signal?: AbortSignal;
+	/**
+	 * The point in time (in milliseconds since the epoch) at which the query is cancelled
+	 * if it has not finished by then.
+	 */
+	deadline?: number;
+	/**
+	 * Called periodically with the progress of the query, and once more when the query ends.
+	 */
+	onProgress?: (progress: QueryProgressEvent) => void;
+	/**
+	 * Only the messages whose content matches all the filters are returned.
+	 */
+	filter?: QueryFilter[];
+}
+
 /**
  * Query the latest "n" messages.
  */
-export interface QueryLastOptions {
+export interface QueryLastOptions extends QueryBaseOptions {
 	last: number;
 }
 
 /**
  * Query messages starting from a given point in time.
  */
-export interface QueryFromOptions {
+export interface QueryFromOptions extends QueryBaseOptions {
 	from: QueryRef;
 	publisherId?: string;
 }
@@ -53,30 +148,202 @@ export interface QueryFromOptions {
 /**
  * Query messages between two points in time.
  */
-export interface QueryRangeOptions {
+export interface QueryRangeOptions extends QueryBaseOptions {
 	from: QueryRef;
 	to: QueryRef;
 	msgChainId?: string;
 	publisherId?: string;
 }
 
+/**
+ * Query the latest "n" messages at or before a given point in time.
+ */
+export interface QueryLastBeforeOptions extends QueryBaseOptions {
+	last: number;
+	before: QueryRef;
+}
+
 /**
  * The supported Query types.
  */
 export type QueryOptions =
 	| QueryLastOptions
 	| QueryFromOptions
-	| QueryRangeOptions;
+	| QueryRangeOptions
+	| QueryLastBeforeOptions;
+
+/**
+ * Aggregate a numeric field of the messages between two points in time into time buckets.
+ */
+export interface QueryAggregateOptions
+	extends Pick<QueryBaseOptions, 'signal' | 'deadline' | 'filter'> {
+	from: QueryRef;
+	to: QueryRef;
+	/** The JSON path of the numeric content field, e.g. `$.temperature` */
+	field: string;
+	/** The length of a bucket in milliseconds */
+	interval: number;
+	/** The aggregates to compute, all of them if not given */
+	functions?: AggregateFunction[];
+	publisherId?: string;
+}
+
+export interface QueryAggregateBucket {
+	/** The start of the bucket */
+	timestamp: number;
+	count?: number;
+	sum?: number;
+	min?: number;
+	max?: number;
+	avg?: number;
+}
+
+export interface QueryPageOptions {
+	/** The maximum number of messages in a page */
+	pageSize: number;
+	/** The cursor of a previously delivered page, the query continues right after that page */
+	cursor?: string;
+}
+
+export interface QueryPage {
+	messages: Message[];
+	/** An opaque position after the last message of the page, used to continue the query later */
+	cursor: string;
+}
+
+export interface QueryEstimate {
+	/** The number of messages the query would return */
+	messages: number;
+	/** The size of the query result in bytes */
+	bytes: number;
+	/** The fee the query would be charged, in LSAN */
+	cost: bigint;
+	/** The query balance of the client in the LogStoreQueryManager, in LSAN */
+	balance: bigint;
+}
+
+export interface QueryDivergentNode {
+	nodeUrl: string;
+	/** The hash of the result returned by the node, if it returned one */
+	hash?: string;
+	/** The reason the node failed to return a result */
+	error?: string;
+}
+
+export interface QueryDivergenceEvent {
+	streamId: string;
+	partition: number;
+	queryType: QueryType;
+	/** The hash of the result the majority of the nodes agreed on */
+	hash: string;
+	nodeUrls: string[];
+	divergentNodes: QueryDivergentNode[];
+}
+
+export interface QueryProgressEvent {
+	queryId: string;
+	streamId: string;
+	partition: number;
+	queryType: QueryType;
+	/** The node currently serving the query, if one has responded */
+	nodeUrl?: string;
+	messagesReceived: number;
+	bytesReceived: number;
+	/** Time in milliseconds since the query started */
+	elapsed: number;
+	done: boolean;
+}
+
+export interface QueryGapFillOptions {
+	/**
+	 * Time in milliseconds the later messages are held back while the missing ones are queried.
+	 * The query is repeated within this time until all the missing messages are found, as they
+	 * may not be stored yet. Overrides the `queries.maxGapWait` config.
+	 */
+	maxGapWait?: number;
+}
+
+export interface QueryGapFillEvent {
+	streamId: string;
+	partition: number;
+	publisherId: string;
+	msgChainId: string;
+	/** The last message delivered before the gap */
+	from: QueryRef;
+	/** The message preceding the message which revealed the gap */
+	to: QueryRef;
+	/** The number of missing messages found in LogStore */
+	filledCount: number;
+	/** The reason the gap could not be filled completely, if the query failed or took too long */
+	error?: string;
+}
+
+export type QueryCancellationReason = 'aborted' | 'deadline';
+
+export class QueryCancelledError extends Error {
+	public readonly reason: QueryCancellationReason;
+
+	constructor(reason: QueryCancellationReason) {
+		super(
+			reason === 'deadline'
+				? 'Query was cancelled: deadline exceeded'
+				: 'Query was cancelled: aborted'
+		);
+		this.reason = reason;
+	}
+}
+
+/**
+ * Fewer nodes serve the query than the `fanOut` of the query asks for,
+ * so that no majority of the requested nodes could be reached.
+ */
+export class QueryFanOutError extends Error {
+	/** The number of nodes the query was to be sent to */
+	public readonly fanOut: number;
+	/** The number of nodes serving the query */
+	public readonly available: number;
+
+	constructor(fanOut: number, available: number) {
+		super(
+			`Query needs ${fanOut} nodes for its fanOut, but only ${available} are available`
+		);
+		this.fanOut = fanOut;
+		this.available = available;
+	}
+}
 
 function isQueryLast<T extends QueryLastOptions>(options: any): options is T {
 	return (
 		options &&
 		typeof options === 'object' &&
 		'last' in options &&
+		!('before' in options) &&
 		options.last != null
 	);
 }
 
+function isQueryLastBefore<T extends QueryLastBeforeOptions>(
+	options: any
+): options is T {
+	return (
+		options &&
+		typeof options === 'object' &&
+		'last' in options &&
+		'before' in options &&
+		options.last != null &&
+		options.before != null
+	);
+}
+
+/**
+ * The number of messages a query of the latest "n" messages is limited to.
+ */
+function getQueryCount(options: QueryOptions): number | undefined {
+	return isQueryLast(options) || isQueryLastBefore(options)
+		? options.last
+		: undefined;
+}
+
 function isQueryFrom<T extends QueryFromOptions>(options: any): options is T {
 	return (
 		options &&
@@ -98,14 +365,521 @@ function isQueryRange<T extends QueryRangeOptions>(options: any): options is T {
 	);
 }
 
+/**
+ * Converts the query options into the endpoint and the parameters of the HTTP query.
+ */
+function toQueryRequest(
+	streamPartId: StreamPartID,
+	options: QueryOptions
+): { queryType: QueryType; query: QueryDict } {
+	const publisherId =
+		'publisherId' in options && options.publisherId !== undefined
+			? toEthereumAddress(options.publisherId)
+			: undefined;
+
+	if (isQueryLast(options)) {
+		return { queryType: QueryType.Last, query: { count: options.last } };
+	}
+
+	if (isQueryLastBefore(options)) {
+		return {
+			queryType: QueryType.LastBefore,
+			query: {
+				count: options.last,
+				beforeTimestamp: new Date(options.before.timestamp).getTime(),
+				beforeSequenceNumber: options.before.sequenceNumber,
+			},
+		};
+	}
+
+	if (isQueryRange(options)) {
+		return {
+			queryType: QueryType.Range,
+			query: {
+				fromTimestamp: new Date(options.from.timestamp).getTime(),
+				fromSequenceNumber:
+					options.from.sequenceNumber ?? MIN_SEQUENCE_NUMBER_VALUE,
+				toTimestamp: new Date(options.to.timestamp).getTime(),
+				toSequenceNumber:
+					options.to.sequenceNumber ?? MIN_SEQUENCE_NUMBER_VALUE,
+				publisherId,
+				msgChainId: options.msgChainId,
+			},
+		};
+	}
+
+	if (isQueryFrom(options)) {
+		return {
+			queryType: QueryType.From,
+			query: {
+				fromTimestamp: new Date(options.from.timestamp).getTime(),
+				fromSequenceNumber:
+					options.from.sequenceNumber ?? MIN_SEQUENCE_NUMBER_VALUE,
+				publisherId,
+			},
+		};
+	}
+
+	throw new StreamrClientError(
+		`can not query without valid query options: ${JSON.stringify({
+			streamPartId,
+			options,
+		})}`,
+		'INVALID_ARGUMENT'
+	);
+}
+
+/**
+ * The fee of reading the given number of bytes, `price` being the LSAN price of a byte of storage.
+ */
+function calculateQueryCost(bytes: number, price: bigint): bigint {
+	const precision = 10000;
+	return (
+		(BigInt(bytes) *
+			price *
+			BigInt(Math.round(readFeeMultiplier * precision))) /
+		BigInt(precision)
+	);
+}
+
+/**
+ * Rewrites the query options to start at the timestamp of the cursor.
+ * Messages up to and including the cursor message are skipped by the caller.
+ */
+function resumeQueryOptions(
+	options: QueryOptions,
+	position: QueryCursorPosition
+): QueryOptions {
+	const from = {
+		timestamp: position.timestamp,
+		sequenceNumber: MIN_SEQUENCE_NUMBER_VALUE,
+	};
+	if (isQueryLast(options)) {
+		// The rest of the latest "n" messages are the ones after the cursor. The query is not limited
+		// to the remaining count, queryPages() stops after delivering it.
+		const { last: _last, ...baseOptions } = options;
+		return { ...baseOptions, from };
+	}
+	if (isQueryLastBefore(options)) {
+		const { last: _last, before, ...baseOptions } = options;
+		const to = {
+			timestamp: before.timestamp,
+			sequenceNumber: before.sequenceNumber ?? MAX_SEQUENCE_NUMBER_VALUE,
+		};
+		return { ...baseOptions, from, to };
+	}
+	return { ...options, from };
+}
+
+/**
+ * Combines the signal and the deadline of a query into a single signal,
+ * which is aborted when the query is cancelled for either of them.
+ */
+export class QueryCancellation {
+	private readonly abortController = new AbortController();
+	private readonly signal?: AbortSignal;
+	private readonly timeout?: ReturnType<typeof setTimeout>;
+	private readonly onAbort = () => this.cancel('aborted');
+	private cancelledError?: QueryCancelledError;
+
+	constructor({ signal, deadline }: QueryBaseOptions) {
+		this.signal = signal;
+		if (signal?.aborted) {
+			this.cancel('aborted');
+			return;
+		}
+		signal?.addEventListener('abort', this.onAbort);
+		if (deadline !== undefined) {
+			this.timeout = setTimeout(
+				() => this.cancel('deadline'),
+				Math.max(0, deadline - Date.now())
+			);
+			// A query left unread is not to keep the process alive until its deadline
+			unrefTimer(this.timeout);
+		}
+	}
+
+	get error(): QueryCancelledError | undefined {
+		return this.cancelledError;
+	}
+
+	/**
+	 * Calls the listener once the query is cancelled. Returns a function removing the listener.
+	 */
+	onCancel(listener: () => void): () => void {
+		const { signal } = this.abortController;
+		signal.addEventListener('abort', listener);
+		return () => signal.removeEventListener('abort', listener);
+	}
+
+	dispose(): void {
+		clearTimeout(this.timeout);
+		this.signal?.removeEventListener('abort', this.onAbort);
+	}
+
+	private cancel(reason: QueryCancellationReason): void {
+		if (this.cancelledError) {
+			return;
+		}
+		this.cancelledError = new QueryCancelledError(reason);
+		this.dispose();
+		this.abortController.abort();
+	}
+}
+
+/**
+ * Counts the messages and bytes received by a query and reports them periodically.
+ */
+export class QueryProgress {
+	private readonly event: Omit<
+		QueryProgressEvent,
+		'elapsed' | 'done' | 'nodeUrl' | 'messagesReceived' | 'bytesReceived'
+	>;
+	private readonly report: (event: QueryProgressEvent) => void;
+	private readonly interval: number;
+	private readonly startTime = Date.now();
+	private nodeUrl?: string;
+	private messagesReceived = 0;
+	private bytesReceived = 0;
+
+	constructor(
+		event: QueryProgress['event'],
+		report: (event: QueryProgressEvent) => void,
+		interval: number
+	) {
+		this.event = event;
+		this.report = report;
+		this.interval = interval;
+	}
+
+	onNode(nodeUrl: string): void {
+		this.nodeUrl = nodeUrl;
+	}
+
+	readonly onBytes = (bytes: number): void => {
+		this.bytesReceived += bytes;
+	};
+
+	async *track(
+		source: AsyncIterable<StreamMessage>
+	): AsyncGenerator<StreamMessage> {
+		const timer = setInterval(() => this.emit(false), this.interval);
+		try {
+			for await (const message of source) {
+				this.messagesReceived++;
+				yield message;
+			}
+		} finally {
+			clearInterval(timer);
+			this.emit(true);
+		}
+	}
+
+	private emit(done: boolean): void {
+		this.report({
+			...this.event,
+			nodeUrl: this.nodeUrl,
+			messagesReceived: this.messagesReceived,
+			bytesReceived: this.bytesReceived,
+			elapsed: Date.now() - this.startTime,
+			done,
+		});
+	}
+}
+
+/**
+ * Tracks the messages delivered by a query, so that the query can be continued
+ * on another node right after the last delivered message.
+ */
+export class QueryResumption {
+	private readonly queryType: QueryType;
+	private readonly query: QueryDict;
+	private deliveredCount = 0;
+	private lastTimestamp?: number;
+	// IDs of the delivered messages sharing the timestamp of the last delivered message
+	private lastTimestampMessageIds = new Set<string>();
+
+	constructor(queryType: QueryType, query: QueryDict) {
+		this.queryType = queryType;
+		this.query = query;
+	}
+
+	/**
+	 * The query which continues right after the last delivered message.
+	 */
+	getRemainingQuery(): { queryType: QueryType; query: QueryDict } {
+		if (this.lastTimestamp === undefined) {
+			return { queryType: this.queryType, query: this.query };
+		}
+
+		if (this.queryType === QueryType.Last) {
+			// The remaining part of the latest "n" messages are those after the last delivered one.
+			return {
+				queryType: QueryType.From,
+				query: {
+					fromTimestamp: this.lastTimestamp,
+					fromSequenceNumber: MIN_SEQUENCE_NUMBER_VALUE,
+					filter: this.query.filter,
+				},
+			};
+		}
+
+		if (this.queryType === QueryType.LastBefore) {
+			return {
+				queryType: QueryType.Range,
+				query: {
+					fromTimestamp: this.lastTimestamp,
+					fromSequenceNumber: MIN_SEQUENCE_NUMBER_VALUE,
+					toTimestamp: this.query.beforeTimestamp,
+					toSequenceNumber:
+						this.query.beforeSequenceNumber ?? MAX_SEQUENCE_NUMBER_VALUE,
+					filter: this.query.filter,
+				},
+			};
+		}
+
+		// Restarting at sequence number 0 of the last timestamp picks up messages of other
+		// publishers sharing that timestamp. Already delivered ones are skipped by isDelivered().
+		return {
+			queryType: this.queryType,
+			query: {
+				...this.query,
+				fromTimestamp: this.lastTimestamp,
+				fromSequenceNumber:
+					this.lastTimestamp === this.query.fromTimestamp
+						? this.query.fromSequenceNumber
+						: MIN_SEQUENCE_NUMBER_VALUE,
+			},
+		};
+	}
+
+	isDelivered(message: StreamMessage): boolean {
+		if (this.lastTimestamp === undefined) {
+			return false;
+		}
+		if (message.getTimestamp() !== this.lastTimestamp) {
+			return message.getTimestamp() < this.lastTimestamp;
+		}
+		return this.lastTimestampMessageIds.has(message.getMessageID().serialize());
+	}
+
+	onDelivered(message: StreamMessage): void {
+		if (message.getTimestamp() !== this.lastTimestamp) {
+			this.lastTimestamp = message.getTimestamp();
+			this.lastTimestampMessageIds = new Set();
+		}
+		this.lastTimestampMessageIds.add(message.getMessageID().serialize());
+		this.deliveredCount++;
+	}
+
+	isComplete(): boolean {
+		return (
+			(this.queryType === QueryType.Last ||
+				this.queryType === QueryType.LastBefore) &&
+			this.deliveredCount >= (this.query.count as number)
+		);
+	}
+}
+
+/**
+ * Whether the query itself is rejected, so that another node won't accept it either,
+ * or its result failed the consensus verification.
+ */
+const isQueryRejected = (err: unknown): boolean =>
+	err instanceof ConsensusError ||
+	err instanceof ValidationError ||
+	err instanceof InsufficientQueryStakeError ||
+	err instanceof StreamNotStoredError ||
+	err instanceof UnauthorizedError;
+
+/**
+ * The delay in milliseconds a rate limited or overloaded node asked for before querying it again.
+ */
+const getRetryAfter = (err: unknown): number | undefined =>
+	err instanceof RateLimitedError || err instanceof NodeOverloadedError
+		? err.retryAfter
+		: undefined;
+
+/**
+ * Keeps the messages whose content matches the filters. Nodes apply the filters as well,
+ * but the ones not supporting them return the messages unfiltered.
+ * `onDropped` is called at the end with the number of messages left out, if any.
+ */
+async function* filterMessages(
+	messageStream: MessageStream,
+	filter: QueryFilter[],
+	onDropped: (droppedCount: number) => void
+): AsyncGenerator<StreamMessage> {
+	let droppedCount = 0;
+	for await (const message of messageStream) {
+		if (matchesQueryFilters(message.content, filter)) {
+			yield toStreamMessage(message);
+		} else {
+			droppedCount++;
+		}
+	}
+	if (droppedCount > 0) {
+		onDropped(droppedCount);
+	}
+}
+
+// How long a gap fill waits before querying the messages still missing again
+const GAP_FILL_RETRY_INTERVAL = 1000;
+
+// Live messages published this long before subscribing may still be delivered by the subscription
+const HISTORY_SEAM_WINDOW = 60 * 1000;
+
+/**
+ * Delivers the historical messages, then the live messages buffered by the subscription
+ * in the meantime and the ones that follow. The live messages already delivered by the
+ * history are skipped by their message ID.
+ */
+async function* historyThenLive(
+	history: MessageStream,
+	subscription: Subscription,
+	subscribedAt: number,
+	filter?: QueryFilter[]
+): AsyncGenerator<StreamMessage> {
+	const seamMessageIds = new Set<string>();
+	try {
+		for await (const message of history) {
+			const streamMessage = toStreamMessage(message);
+			if (message.timestamp >= subscribedAt - HISTORY_SEAM_WINDOW) {
+				seamMessageIds.add(streamMessage.getMessageID().serialize());
+			}
+			yield streamMessage;
+		}
+
+		for await (const message of subscription) {
+			const streamMessage = toStreamMessage(message);
+			if (seamMessageIds.delete(streamMessage.getMessageID().serialize())) {
+				continue;
+			}
+			if (
+				filter === undefined ||
+				matchesQueryFilters(message.content, filter)
+			) {
+				yield streamMessage;
+			}
+		}
+	} finally {
+		await subscription.unsubscribe();
+	}
+}
+
+/**
+ * Reads the query of a partition to its end, buffering the messages until the merge consumes them.
+ * The merge needs the first message of every partition, so the partitions waiting for a slot of
+ * the `queries.partitionConcurrency` limit could otherwise never start.
+ */
+class BufferedPartition implements AsyncIterator<Message> {
+	private readonly messages: Message[] = [];
+	private ended = false;
+	private failure?: { error: unknown };
+	private closed = false;
+	private onChange?: () => void;
+
+	async read(open: () => Promise<MessageStream>): Promise<void> {
+		try {
+			if (this.closed) {
+				return;
+			}
+			for await (const message of await open()) {
+				if (this.closed) {
+					break;
+				}
+				this.messages.push(message);
+				this.onChange?.();
+			}
+		} catch (error) {
+			this.failure = { error };
+		} finally {
+			this.ended = true;
+			this.onChange?.();
+		}
+	}
+
+	async next(): Promise<IteratorResult<Message>> {
+		while (this.messages.length === 0 && !this.ended) {
+			await new Promise<void>((resolve) => {
+				this.onChange = resolve;
+			});
+		}
+		if (this.messages.length > 0) {
+			return { done: false, value: this.messages.shift()! };
+		}
+		if (this.failure !== undefined) {
+			throw this.failure.error;
+		}
+		return { done: true, value: undefined };
+	}
+
+	async return(): Promise<IteratorResult<Message>> {
+		this.closed = true;
+		this.messages.length = 0;
+		return { done: true, value: undefined };
+	}
+}
+
+interface PartitionHead {
+	iterator: AsyncIterator<Message>;
+	head: IteratorResult<Message>;
+}
+
+const compareMessages = (a: Message, b: Message): number =>
+	a.timestamp - b.timestamp || a.sequenceNumber - b.sequenceNumber;
+
+/**
+ * Merges the opened partition queries in the order of (timestamp, sequenceNumber).
+ * If `last` is given, only the latest `last` messages of the merged result are delivered.
+ */
+async function* mergePartitions(
+	partitions: PartitionHead[],
+	last?: number
+): AsyncGenerator<StreamMessage> {
+	const latest: StreamMessage[] = [];
+	try {
+		let pending = partitions.filter((partition) => !partition.head.done);
+		while (pending.length > 0) {
+			const next = pending.reduce((min, partition) =>
+				compareMessages(partition.head.value, min.head.value) < 0
+					? partition
+					: min
+			);
+			const streamMessage = toStreamMessage(next.head.value);
+			if (last === undefined) {
+				yield streamMessage;
+			} else {
+				latest.push(streamMessage);
+				if (latest.length > last) {
+					latest.shift();
+				}
+			}
+
+			next.head = await next.iterator.next();
+			pending = pending.filter((partition) => !partition.head.done);
+		}
+	} finally {
+		await Promise.all(
+			partitions.map((partition) => partition.iterator.return?.())
+		);
+	}
+	for (const streamMessage of latest) {
+		yield streamMessage;
+	}
+}
+
 @scoped(Lifecycle.ContainerScoped)
 export class Queries implements IResends {
 	private readonly streamRegistryCached: StreamRegistryCached;
 	private readonly nodeManager: NodeManager;
+	private readonly logStoreRegistry: LogStoreRegistry;
 	private readonly httpUtil: HttpUtil;
 	private readonly groupKeyManager: GroupKeyManager;
 	private readonly destroySignal: DestroySignal;
-	private readonly config: StrictStreamrClientConfig;
+	private readonly eventEmitter: LogStoreClientEventEmitter;
+	private readonly config: StrictStreamrClientConfig &
+		Pick<StrictLogStoreClientConfig, 'queries'>;
 	private readonly loggerFactory: LoggerFactory;
 	private readonly logger: Logger;
 
@@ -114,22 +888,29 @@ export class Queries implements IResends {
 		streamRegistryCached: StreamRegistryCached,
 		@inject(NodeManager)
 		nodeManager: NodeManager,
+		@inject(delay(() => LogStoreRegistry))
+		logStoreRegistry: LogStoreRegistry,
 		@inject(HttpUtil)
 		httpUtil: HttpUtil,
 		@inject(GroupKeyManager)
 		groupKeyManager: GroupKeyManager,
 		@inject(DestroySignal)
 		destroySignal: DestroySignal,
+		@inject(LogStoreClientEventEmitter)
+		eventEmitter: LogStoreClientEventEmitter,
 		@inject(LogStoreClientConfigInjectionToken)
-		config: StrictStreamrClientConfig,
+		config: StrictStreamrClientConfig &
+			Pick<StrictLogStoreClientConfig, 'queries'>,
 		@inject(LoggerFactory)
 		loggerFactory: LoggerFactory
 	) {
 		this.streamRegistryCached = streamRegistryCached;
 		this.nodeManager = nodeManager;
+		this.logStoreRegistry = logStoreRegistry;
 		this.httpUtil = httpUtil;
 		this.groupKeyManager = groupKeyManager;
 		this.destroySignal = destroySignal;
+		this.eventEmitter = eventEmitter;
 		this.config = config;
 		this.loggerFactory = loggerFactory;
 		this.logger = loggerFactory.createLogger(module);
@@ -139,35 +920,67 @@ export class Queries implements IResends {
 		streamPartId: StreamPartID,
 		options: QueryOptions
 	): Promise<MessageStream> {
+		const baseOptions: QueryBaseOptions = {
+			fanOut: options.fanOut,
+			signal: options.signal,
+			deadline: options.deadline,
+			onProgress: options.onProgress,
+			filter: options.filter,
+		};
+
 		if (isQueryLast(options)) {
-			return this.last(streamPartId, {
-				count: options.last,
-			});
+			return this.last(
+				streamPartId,
+				{
+					count: options.last,
+				},
+				baseOptions
+			);
+		}
+
+		if (isQueryLastBefore(options)) {
+			return this.lastBefore(
+				streamPartId,
+				{
+					count: options.last,
+					beforeTimestamp: new Date(options.before.timestamp).getTime(),
+					beforeSequenceNumber: options.before.sequenceNumber,
+				},
+				baseOptions
+			);
 		}
 
 		if (isQueryRange(options)) {
-			return this.range(streamPartId, {
-				fromTimestamp: new Date(options.from.timestamp).getTime(),
-				fromSequenceNumber: options.from.sequenceNumber,
-				toTimestamp: new Date(options.to.timestamp).getTime(),
-				toSequenceNumber: options.to.sequenceNumber,
-				publisherId:
-					options.publisherId !== undefined
-						? toEthereumAddress(options.publisherId)
-						: undefined,
-				msgChainId: options.msgChainId,
-			});
+			return this.range(
+				streamPartId,
+				{
+					fromTimestamp: new Date(options.from.timestamp).getTime(),
+					fromSequenceNumber: options.from.sequenceNumber,
+					toTimestamp: new Date(options.to.timestamp).getTime(),
+					toSequenceNumber: options.to.sequenceNumber,
+					publisherId:
+						options.publisherId !== undefined
+							? toEthereumAddress(options.publisherId)
+							: undefined,
+					msgChainId: options.msgChainId,
+				},
+				baseOptions
+			);
 		}
 
 		if (isQueryFrom(options)) {
-			return this.from(streamPartId, {
-				fromTimestamp: new Date(options.from.timestamp).getTime(),
-				fromSequenceNumber: options.from.sequenceNumber,
-				publisherId:
-					options.publisherId !== undefined
-						? toEthereumAddress(options.publisherId)
-						: undefined,
-			});
+			return this.from(
+				streamPartId,
+				{
+					fromTimestamp: new Date(options.from.timestamp).getTime(),
+					fromSequenceNumber: options.from.sequenceNumber,
+					publisherId:
+						options.publisherId !== undefined
+							? toEthereumAddress(options.publisherId)
+							: undefined,
+				},
+				baseOptions
+			);
 		}
 
 		throw new StreamrClientError(
@@ -179,11 +992,540 @@ export class Queries implements IResends {
 		);
 	}
 
+	async *queryPages(
+		streamPartId: StreamPartID,
+		options: QueryOptions,
+		{ pageSize, cursor }: QueryPageOptions
+	): AsyncGenerator<QueryPage> {
+		if (!(pageSize > 0)) {
+			throw new StreamrClientError(
+				`pageSize must be a positive number: ${pageSize}`,
+				'INVALID_ARGUMENT'
+			);
+		}
+
+		// The options which do not change the result of the query are left out of the fingerprint
+		const {
+			fanOut: _fanOut,
+			signal: _signal,
+			deadline: _deadline,
+			onProgress: _onProgress,
+			...query
+		} = options;
+		const fingerprint = createQueryFingerprint(streamPartId, query);
+		const position =
+			cursor !== undefined ? decodeQueryCursor(cursor, fingerprint) : undefined;
+		const count = getQueryCount(options);
+		let remaining =
+			count !== undefined ? position?.remaining ?? count : undefined;
+		if (remaining !== undefined && remaining <= 0) {
+			return;
+		}
+
+		const messageStream = await this.query(
+			streamPartId,
+			position !== undefined ? resumeQueryOptions(options, position) : options
+		);
+
+		// The cursor position until the messages delivered before it are skipped
+		let skipUntil = position;
+		let page: Message[] = [];
+		const toPage = (messages: Message[]): QueryPage => {
+			const { timestamp, sequenceNumber, publisherId, msgChainId } =
+				messages[messages.length - 1];
+			return {
+				messages,
+				cursor: encodeQueryCursor(fingerprint, {
+					timestamp,
+					sequenceNumber,
+					publisherId,
+					msgChainId,
+					remaining,
+				}),
+			};
+		};
+
+		for await (const message of messageStream) {
+			if (skipUntil !== undefined && message.timestamp <= skipUntil.timestamp) {
+				// skip the messages delivered before the cursor, up to the cursor message itself
+				if (isCursorMessage(skipUntil, message)) {
+					skipUntil = undefined;
+				}
+				continue;
+			}
+			skipUntil = undefined;
+
+			page.push(message);
+			if (remaining !== undefined) {
+				remaining--;
+			}
+			if (page.length >= pageSize || remaining === 0) {
+				yield toPage(page);
+				page = [];
+			}
+			if (remaining === 0) {
+				return;
+			}
+		}
+
+		if (page.length > 0) {
+			yield toPage(page);
+		}
+	}
+
+	/**
+	 * Queries all the given partitions of a stream and merges the results in the order of
+	 * (timestamp, sequenceNumber). For a query of the latest "n" messages, the latest "n"
+	 * messages across all the partitions are delivered.
+	 */
+	async queryAllPartitions(
+		streamPartIds: StreamPartID[],
+		options: QueryOptions
+	): Promise<MessageStream> {
+		// A partition holds its slot until its query is read to the end
+		const readPartition = pLimitFn(
+			(partition: BufferedPartition, streamPartId: StreamPartID) =>
+				partition.read(() => this.query(streamPartId, options)),
+			this.config.queries.partitionConcurrency
+		);
+
+		const results = await Promise.allSettled(
+			streamPartIds.map(async (streamPartId): Promise<PartitionHead> => {
+				const iterator = new BufferedPartition();
+				readPartition(iterator, streamPartId);
+				return { iterator, head: await iterator.next() };
+			})
+		);
+		const partitions = results.flatMap((result) =>
+			result.status === 'fulfilled' ? [result.value] : []
+		);
+		const failure = results.find(
+			(result): result is PromiseRejectedResult => result.status === 'rejected'
+		);
+		if (failure !== undefined) {
+			await Promise.all(
+				partitions.map((partition) => partition.iterator.return?.())
+			);
+			throw failure.reason;
+		}
+
+		const messageStream = new MessageStream();
+		messageStream.pull(mergePartitions(partitions, getQueryCount(options)));
+		return messageStream;
+	}
+
+	/**
+	 * Queries the messages from a point in time, and continues with the live messages of
+	 * the subscription once all the historical ones are delivered. The subscription is made
+	 * before the query, so that no message published meanwhile is missed.
+	 */
+	async subscribeWithHistory(
+		streamPartId: StreamPartID,
+		subscribe: () => Promise<Subscription>,
+		options: QueryFromOptions
+	): Promise<MessageStream> {
+		const subscribedAt = Date.now();
+		const subscription = await subscribe();
+		let history: MessageStream;
+		try {
+			history = await this.query(streamPartId, options);
+		} catch (err) {
+			await subscription.unsubscribe();
+			throw err;
+		}
+
+		const messageStream = new MessageStream();
+		messageStream.pull(
+			historyThenLive(history, subscription, subscribedAt, options.filter)
+		);
+		return messageStream;
+	}
+
+	/**
+	 * Delivers the live messages of the subscription, querying LogStore for the messages missing
+	 * from a message chain before the later messages of the subscription are delivered.
+	 */
+	async subscribeWithGapFill(
+		streamPartId: StreamPartID,
+		subscribe: () => Promise<Subscription>,
+		{ maxGapWait = this.config.queries.maxGapWait }: QueryGapFillOptions = {}
+	): Promise<MessageStream> {
+		const subscription = await subscribe();
+		const messageStream = new MessageStream();
+		messageStream.pull(this.fillGaps(streamPartId, subscription, maxGapWait));
+		return messageStream;
+	}
+
+	private async *fillGaps(
+		streamPartId: StreamPartID,
+		subscription: Subscription,
+		maxGapWait: number
+	): AsyncGenerator<StreamMessage> {
+		// the ref of the last delivered message of each publisher and message chain
+		const lastRefs = new Map<string, MessageRef>();
+		const [streamId, partition] =
+			StreamPartIDUtils.getStreamIDAndPartition(streamPartId);
+
+		try {
+			for await (const message of subscription) {
+				const streamMessage = toStreamMessage(message);
+				const chain = `${message.publisherId}/${message.msgChainId}`;
+				const lastRef = lastRefs.get(chain);
+				const prevRef = streamMessage.prevMsgRef;
+				if (
+					lastRef !== undefined &&
+					streamMessage.getMessageRef().compareTo(lastRef) <= 0
+				) {
+					// already delivered, e.g. by a previous gap fill
+					continue;
+				}
+
+				if (
+					lastRef !== undefined &&
+					prevRef !== null &&
+					prevRef.compareTo(lastRef) > 0
+				) {
+					let filledCount = 0;
+					let error: string | undefined;
+					// The missing messages may not be stored yet, so the query is repeated
+					// until all of them are found or maxGapWait is over
+					const giveUpAt = Date.now() + maxGapWait;
+					for (;;) {
+						const filledRef = lastRefs.get(chain)!;
+						try {
+							const missing = await this.range(
+								streamPartId,
+								{
+									fromTimestamp: filledRef.timestamp,
+									fromSequenceNumber: filledRef.sequenceNumber,
+									toTimestamp: prevRef.timestamp,
+									toSequenceNumber: prevRef.sequenceNumber,
+									publisherId: toEthereumAddress(message.publisherId),
+									msgChainId: message.msgChainId,
+								},
+								{ deadline: giveUpAt }
+							);
+							for await (const missingMessage of missing) {
+								const missingRef =
+									toStreamMessage(missingMessage).getMessageRef();
+								if (
+									missingRef.compareTo(lastRefs.get(chain)!) > 0 &&
+									missingRef.compareTo(prevRef) <= 0
+								) {
+									lastRefs.set(chain, missingRef);
+									filledCount++;
+									yield toStreamMessage(missingMessage);
+								}
+							}
+							error = undefined;
+						} catch (err) {
+							error = (err as Error)?.message ?? String(err);
+						}
+						if (lastRefs.get(chain)!.compareTo(prevRef) >= 0) {
+							error = undefined;
+							break;
+						}
+						if (Date.now() + GAP_FILL_RETRY_INTERVAL >= giveUpAt) {
+							error ??= `Missing messages were not found within ${maxGapWait}ms`;
+							this.logger.warn(
+								'failed to fill the gap in %s before %j: %s',
+								chain,
+								prevRef,
+								error
+							);
+							break;
+						}
+						await wait(GAP_FILL_RETRY_INTERVAL);
+					}
+					this.eventEmitter.emit('queryGapFill', {
+						streamId,
+						partition,
+						publisherId: message.publisherId,
+						msgChainId: message.msgChainId,
+						from: { ...lastRef },
+						to: { ...prevRef },
+						filledCount,
+						error,
+					});
+				}
+
+				lastRefs.set(chain, streamMessage.getMessageRef());
+				yield streamMessage;
+			}
+		} finally {
+			await subscription.unsubscribe();
+		}
+	}
+
+	/**
+	 * Asks a node for the size of the query result without running the query,
+	 * and prices it against the query balance of the client.
+	 */
+	async estimate(
+		streamPartId: StreamPartID,
+		options: QueryOptions
+	): Promise<QueryEstimate> {
+		const { queryType, query } = toQueryRequest(streamPartId, options);
+		if (options.filter !== undefined) {
+			validateQueryFilters(options.filter);
+			query.filter = JSON.stringify(options.filter);
+		}
+		const nodeUrl = await this.nodeManager.getNodeUrl({ queryType });
+		const url = this.createUrl(
+			nodeUrl,
+			`${queryType}/estimate`,
+			streamPartId,
+			query
+		);
+
+		const [{ messages, bytes }, price, balance] = await Promise.all([
+			this.httpUtil.fetchJson<{ messages: number; bytes: number }>(url),
+			this.logStoreRegistry.getPrice(),
+			this.logStoreRegistry.getQueryBalance(),
+		]);
+
+		return {
+			messages,
+			bytes,
+			cost: calculateQueryCost(bytes, price),
+			balance,
+		};
+	}
+
+	/**
+	 * Queries the aggregates of a numeric content field, computed by the node for each time bucket.
+	 * The content of encrypted streams can't be aggregated by the nodes.
+	 */
+	async *aggregate(
+		streamPartId: StreamPartID,
+		options: QueryAggregateOptions
+	): AsyncGenerator<QueryAggregateBucket> {
+		if (!(options.interval > 0)) {
+			throw new StreamrClientError(
+				`interval must be a positive number: ${options.interval}`,
+				'INVALID_ARGUMENT'
+			);
+		}
+		parseQueryFilterPath(options.field);
+		if (options.filter !== undefined) {
+			validateQueryFilters(options.filter);
+		}
+
+		const query: QueryDict = {
+			fromTimestamp: new Date(options.from.timestamp).getTime(),
+			fromSequenceNumber:
+				options.from.sequenceNumber ?? MIN_SEQUENCE_NUMBER_VALUE,
+			toTimestamp: new Date(options.to.timestamp).getTime(),
+			toSequenceNumber: options.to.sequenceNumber ?? MIN_SEQUENCE_NUMBER_VALUE,
+			publisherId:
+				options.publisherId !== undefined
+					? toEthereumAddress(options.publisherId)
+					: undefined,
+			field: options.field,
+			interval: options.interval,
+			functions: (options.functions ?? Object.values(AggregateFunction)).join(
+				','
+			),
+			filter:
+				options.filter !== undefined
+					? JSON.stringify(options.filter)
+					: undefined,
+		};
+
+		const cancellation = new QueryCancellation(options);
+		const abortController = new AbortController();
+		const removeCancelListener = cancellation.onCancel(() =>
+			abortController.abort()
+		);
+		try {
+			const response = await this.fetchResponseFromAnyNode(
+				QueryType.Aggregate,
+				streamPartId,
+				query,
+				abortController,
+				cancellation,
+				(line: string) => JSON.parse(line) as QueryAggregateBucket
+			);
+			for await (const bucket of response.messages) {
+				yield bucket;
+			}
+		} catch (err) {
+			throw cancellation.error ?? err;
+		} finally {
+			removeCancelListener();
+			cancellation.dispose();
+			abortController.abort();
+		}
+	}
+
+	/**
+	 * Queries the messages decoded by the node, skipping the deserialization, decryption and
+	 * validation of the subscribe pipeline. The content of encrypted streams is left encrypted.
+	 * The query is retried on other nodes until one of them responds, it is not continued on
+	 * another node if the response breaks off.
+	 */
+	async *records(
+		streamPartId: StreamPartID,
+		options: QueryOptions
+	): AsyncGenerator<QueryRecord> {
+		const { queryType, query } = toQueryRequest(streamPartId, options);
+		const { filter } = options;
+		if (filter !== undefined) {
+			validateQueryFilters(filter);
+			query.filter = JSON.stringify(filter);
+		}
+
+		const cancellation = new QueryCancellation(options);
+		const abortController = new AbortController();
+		const removeCancelListener = cancellation.onCancel(() =>
+			abortController.abort()
+		);
+		try {
+			const response = await this.fetchResponseFromAnyNode(
+				queryType,
+				streamPartId,
+				query,
+				abortController,
+				cancellation,
+				(line: string) => JSON.parse(line) as QueryRecord,
+				QueryResponseFormat.Object
+			);
+			for await (const record of verifyConsensusHash(
+				response.messages,
+				response.consensus[0].hash
+			)) {
+				if (
+					filter === undefined ||
+					matchesQueryFilters(record.content, filter)
+				) {
+					yield record;
+				}
+			}
+		} catch (err) {
+			throw cancellation.error ?? err;
+		} finally {
+			removeCancelListener();
+			cancellation.dispose();
+			abortController.abort();
+		}
+	}
+
+	/**
+	 * Requests the query from randomly picked nodes until one of them responds.
+	 */
+	private async fetchResponseFromAnyNode<T>(
+		queryType: QueryType,
+		streamPartId: StreamPartID,
+		query: QueryDict,
+		abortController: AbortController,
+		cancellation: QueryCancellation,
+		parseLine: (line: string) => T,
+		format = QueryResponseFormat.Raw
+	): Promise<QueryHttpResponse<T>> {
+		const { retries } = this.config.queries;
+		const nodeUrls = this.nodeManager.getNodeUrls({
+			queryType,
+			queryFormat: format,
+		});
+		let lastError: unknown;
+		let staked = false;
+		// The node which rejected the query for the stake, to retry it after staking
+		let stakedNodeUrl: string | undefined;
+
+		for (let attempt = 0; attempt <= retries; attempt++) {
+			const next: IteratorResult<string> =
+				stakedNodeUrl !== undefined
+					? { value: stakedNodeUrl, done: false }
+					: await nodeUrls.next();
+			stakedNodeUrl = undefined;
+			if (next.done || cancellation.error) {
+				break;
+			}
+			const nodeUrl = next.value;
+
+			try {
+				const startTime = Date.now();
+				const response = await this.httpUtil.fetchQueryResponse(
+					this.createUrl(nodeUrl, queryType, streamPartId, query, format),
+					abortController,
+					undefined,
+					parseLine
+				);
+				this.nodeManager.onNodeSuccess(nodeUrl, Date.now() - startTime);
+				return response;
+			} catch (err) {
+				if (
+					!staked &&
+					err instanceof InsufficientQueryStakeError &&
+					(await this.stakeForQuery(err))
+				) {
+					staked = true;
+					stakedNodeUrl = nodeUrl;
+					attempt--;
+					continue;
+				}
+				if (cancellation.error || isQueryRejected(err)) {
+					throw err;
+				}
+				lastError = err;
+				this.nodeManager.onNodeFailure(nodeUrl, getRetryAfter(err));
+				this.logger.warn(
+					'%s query failed on node %s (attempt %d of %d): %s',
+					queryType,
+					nodeUrl,
+					attempt + 1,
+					retries + 1,
+					(err as Error)?.message
+				);
+			}
+		}
+
+		throw (
+			cancellation.error ??
+			lastError ??
+			new Error('There are no nodes with a proper metadata')
+		);
+	}
+
+	/**
+	 * Stakes the query balance missing for a query, if enabled by the `queries.autoStake` config.
+	 * Returns whether the query can be retried.
+	 */
+	private async stakeForQuery(
+		err: InsufficientQueryStakeError
+	): Promise<boolean> {
+		if (!this.config.queries.autoStake || err.requiredStake === undefined) {
+			return false;
+		}
+		const amount = err.requiredStake - (err.balance ?? BigInt(0));
+		if (amount <= BigInt(0)) {
+			return false;
+		}
+		this.logger.info('staking %s LSAN for the query', amount.toString());
+		await this.logStoreRegistry.queryStake(amount);
+		return true;
+	}
+
 	private async fetchStream(
 		queryType: QueryType,
 		streamPartId: StreamPartID,
-		query: QueryDict = {}
+		query: QueryDict = {},
+		{
+			fanOut,
+			onProgress,
+			filter,
+			...cancellationOptions
+		}: QueryBaseOptions = {}
 	): Promise<MessageStream> {
+		const cancellation = new QueryCancellation(cancellationOptions);
+		if (cancellation.error) {
+			throw cancellation.error;
+		}
+		if (filter !== undefined) {
+			validateQueryFilters(filter);
+			query = { ...query, filter: JSON.stringify(filter) };
+		}
+
 		const loggerIdx = counterId('fetchStream');
 		this.logger.debug(
 			'[%s] fetching query %s for %s with options %o',
@@ -193,8 +1535,6 @@ export class Queries implements IResends {
 			query
 		);
 
-		const nodeUrl = await this.nodeManager.getRandomNodeUrl();
-		const url = this.createUrl(nodeUrl, queryType, streamPartId, query);
 		const messageStream = createSubscribePipeline({
 			streamPartId,
 			resends: this,
@@ -205,22 +1545,343 @@ export class Queries implements IResends {
 			loggerFactory: this.loggerFactory,
 		});
 
-		const dataStream = this.httpUtil.fetchHttpStream(url);
-		messageStream.pull(
-			counting(dataStream, (count: number) => {
-				this.logger.debug(
-					'[%s] total of %d messages received for query fetch',
-					loggerIdx,
-					count
-				);
+		const [streamId, partition] =
+			StreamPartIDUtils.getStreamIDAndPartition(streamPartId);
+		const progress = new QueryProgress(
+			{ queryId: loggerIdx, streamId, partition, queryType },
+			(event) => {
+				onProgress?.(event);
+				this.eventEmitter.emit('queryProgress', event);
+			},
+			this.config.queries.progressInterval
+		);
+
+		const dataStream =
+			fanOut !== undefined && fanOut > 1
+				? this.fetchWithFanOut(
+						queryType,
+						streamPartId,
+						query,
+						fanOut,
+						cancellation,
+						progress
+				  )
+				: this.fetchWithFailover(
+						queryType,
+						streamPartId,
+						query,
+						loggerIdx,
+						cancellation,
+						progress
+				  );
+		// Ends the stream also for a consumer waiting for the next message
+		const removeCancelListener = cancellation.onCancel(() =>
+			messageStream.endWrite(cancellation.error)
+		);
+		messageStream
+			.pull(
+				counting(progress.track(dataStream), (count: number) => {
+					this.logger.debug(
+						'[%s] total of %d messages received for query fetch',
+						loggerIdx,
+						count
+					);
+				})
+			)
+			.finally(() => {
+				removeCancelListener();
+				cancellation.dispose();
+			});
+
+		if (filter === undefined) {
+			return messageStream;
+		}
+		const filteredStream = new MessageStream();
+		filteredStream.pull(
+			filterMessages(messageStream, filter, (droppedCount) => {
+				// The node counted the messages it did not filter towards the latest "n"
+				if (
+					queryType === QueryType.Last ||
+					queryType === QueryType.LastBefore
+				) {
+					this.logger.warn(
+						'[%s] the node did not apply the filter, so %d of the latest %d messages were left out, and fewer were returned',
+						loggerIdx,
+						droppedCount,
+						query.count
+					);
+				}
 			})
 		);
-		return messageStream;
+		return filteredStream;
+	}
+
+	/**
+	 * Fetches the query from randomly picked nodes. If a node fails or stays silent for longer
+	 * than the attempt timeout, the query is continued on another node right after
+	 * the last delivered message.
+	 */
+	private async *fetchWithFailover(
+		queryType: QueryType,
+		streamPartId: StreamPartID,
+		query: QueryDict,
+		loggerIdx: string,
+		cancellation: QueryCancellation,
+		progress: QueryProgress
+	): AsyncGenerator<StreamMessage> {
+		const { retries, attemptTimeout } = this.config.queries;
+		const resumption = new QueryResumption(queryType, query);
+		const nodeUrls = this.nodeManager.getNodeUrls({
+			queryType,
+			queryFormat: QueryResponseFormat.Raw,
+		});
+		let lastError: unknown;
+		let staked = false;
+		// The node which rejected the query for the stake, to retry it after staking
+		let stakedNodeUrl: string | undefined;
+
+		for (let attempt = 0; attempt <= retries; attempt++) {
+			const next: IteratorResult<string> =
+				stakedNodeUrl !== undefined
+					? { value: stakedNodeUrl, done: false }
+					: await nodeUrls.next();
+			stakedNodeUrl = undefined;
+			if (next.done) {
+				break;
+			}
+			const nodeUrl = next.value;
+
+			const remaining = resumption.getRemainingQuery();
+			const url = this.createUrl(
+				nodeUrl,
+				remaining.queryType,
+				streamPartId,
+				remaining.query
+			);
+
+			const abortController = new AbortController();
+			const removeCancelListener = cancellation.onCancel(() =>
+				abortController.abort()
+			);
+			let timeout: ReturnType<typeof setTimeout> | undefined;
+			let timedOut = false;
+
+			progress.onNode(nodeUrl);
+			const startTime = Date.now();
+			let responded = false;
+			const dataStream = this.httpUtil
+				.fetchHttpStream(url, abortController, progress.onBytes)
+				[Symbol.asyncIterator]();
+			try {
+				// The stream is read to its end also after the last message of the query,
+				// as its consensus hash is verified there
+				for (;;) {
+					let result: IteratorResult<StreamMessage>;
+					timeout = setTimeout(() => {
+						timedOut = true;
+						abortController.abort();
+					}, attemptTimeout);
+					try {
+						result = await dataStream.next();
+					} catch (err) {
+						if (cancellation.error) {
+							throw cancellation.error;
+						}
+						if (
+							!staked &&
+							err instanceof InsufficientQueryStakeError &&
+							(await this.stakeForQuery(err))
+						) {
+							// The query is retried with the stake, without counting as a failed attempt
+							staked = true;
+							stakedNodeUrl = nodeUrl;
+							attempt--;
+							break;
+						}
+						if (isQueryRejected(err)) {
+							throw err;
+						}
+						lastError = timedOut
+							? new Error(`Node ${nodeUrl} timed out after ${attemptTimeout}ms`)
+							: err;
+						this.nodeManager.onNodeFailure(nodeUrl, getRetryAfter(err));
+						// The messages delivered could not be verified, and another node's result
+						// would not be comparable to them
+						if (resumption.isComplete()) {
+							throw lastError;
+						}
+						this.logger.warn(
+							'[%s] query failed on node %s (attempt %d of %d): %s',
+							loggerIdx,
+							nodeUrl,
+							attempt + 1,
+							retries + 1,
+							(lastError as Error)?.message
+						);
+						break;
+					} finally {
+						clearTimeout(timeout);
+					}
+
+					if (!responded) {
+						responded = true;
+						this.nodeManager.onNodeSuccess(nodeUrl, Date.now() - startTime);
+					}
+					if (result.done) {
+						return;
+					}
+					if (resumption.isComplete() || resumption.isDelivered(result.value)) {
+						continue;
+					}
+					resumption.onDelivered(result.value);
+					yield result.value;
+				}
+			} finally {
+				removeCancelListener();
+				await dataStream.return?.();
+			}
+		}
+
+		throw lastError ?? new Error('There are no nodes with a proper metadata');
+	}
+
+	/**
+	 * Sends the query to multiple nodes in parallel and compares the consensus hashes of their results.
+	 * The messages are read from a node of the majority, the other responses are discarded.
+	 */
+	private async *fetchWithFanOut(
+		queryType: QueryType,
+		streamPartId: StreamPartID,
+		query: QueryDict,
+		fanOut: number,
+		cancellation: QueryCancellation,
+		progress: QueryProgress
+	): AsyncGenerator<StreamMessage> {
+		const { attemptTimeout } = this.config.queries;
+		const nodeUrls = await collect(
+			this.nodeManager.getNodeUrls({
+				queryType,
+				queryFormat: QueryResponseFormat.Raw,
+			}),
+			fanOut
+		);
+		if (nodeUrls.length === 0) {
+			throw new Error('There are no nodes with a proper metadata');
+		}
+		// A majority of fewer nodes would not be a majority of the nodes asked for
+		if (nodeUrls.length < fanOut) {
+			throw new QueryFanOutError(fanOut, nodeUrls.length);
+		}
+
+		const removeCancelListeners: (() => void)[] = [];
+		try {
+			const results = await Promise.all(
+				nodeUrls.map(async (nodeUrl) => {
+					const abortController = new AbortController();
+					removeCancelListeners.push(
+						cancellation.onCancel(() => abortController.abort())
+					);
+					const timeout = setTimeout(
+						() => abortController.abort(),
+						attemptTimeout
+					);
+					const startTime = Date.now();
+					try {
+						const response = await this.httpUtil.fetchQueryResponse(
+							this.createUrl(nodeUrl, queryType, streamPartId, query),
+							abortController,
+							progress.onBytes
+						);
+						this.nodeManager.onNodeSuccess(nodeUrl, Date.now() - startTime);
+						return {
+							nodeUrl,
+							abortController,
+							hash: response.consensus[0].hash,
+							response,
+						};
+					} catch (err) {
+						if (!cancellation.error) {
+							this.nodeManager.onNodeFailure(nodeUrl, getRetryAfter(err));
+						}
+						return {
+							nodeUrl,
+							abortController,
+							error: (err as Error)?.message ?? String(err),
+						};
+					} finally {
+						clearTimeout(timeout);
+					}
+				})
+			);
+
+			if (cancellation.error) {
+				throw cancellation.error;
+			}
+
+			const votes = countBy(
+				results.filter(({ hash }) => hash !== undefined),
+				({ hash }) => hash
+			);
+			const [majorityHash, majorityCount = 0] =
+				maxBy(Object.entries(votes), ([, count]) => count) ?? [];
+			const majority = results.find(({ hash }) => hash === majorityHash);
+			const divergentNodes: QueryDivergentNode[] = results
+				.filter(({ hash }) => hash !== majorityHash)
+				.map(({ nodeUrl, hash, error }) => ({ nodeUrl, hash, error }));
+			if (
+				majority?.response === undefined ||
+				majorityCount <= nodeUrls.length / 2
+			) {
+				results.forEach(({ abortController }) => abortController.abort());
+				throw new Error(
+					`No majority among ${nodeUrls.length} nodes for the query`
+				);
+			}
+
+			if (divergentNodes.length > 0) {
+				const [streamId, partition] =
+					StreamPartIDUtils.getStreamIDAndPartition(streamPartId);
+				this.logger.warn(
+					'nodes diverged from the majority result %s: %j',
+					majority.hash,
+					divergentNodes
+				);
+				this.eventEmitter.emit('queryDivergence', {
+					streamId,
+					partition,
+					queryType,
+					hash: majority.hash,
+					nodeUrls,
+					divergentNodes,
+				});
+			}
+
+			results
+				.filter((result) => result !== majority)
+				.forEach(({ abortController }) => abortController.abort());
+
+			progress.onNode(majority.nodeUrl);
+			try {
+				for await (const message of verifyConsensusHash(
+					majority.response.messages,
+					majority.hash
+				)) {
+					yield message;
+				}
+			} catch (err) {
+				throw cancellation.error ?? err;
+			}
+		} finally {
+			removeCancelListeners.forEach((removeCancelListener) =>
+				removeCancelListener()
+			);
+		}
 	}
 
 	async last(
 		streamPartId: StreamPartID,
-		{ count }: { count: number }
+		{ count }: { count: number },
+		baseOptions?: QueryBaseOptions
 	): Promise<MessageStream> {
 		if (count <= 0) {
 			const emptyStream = new MessageStream();
@@ -228,9 +1889,45 @@ export class Queries implements IResends {
 			return emptyStream;
 		}
 
-		return this.fetchStream(QueryType.Last, streamPartId, {
+		return this.fetchStream(
+			QueryType.Last,
+			streamPartId,
+			{
+				count,
+			},
+			baseOptions
+		);
+	}
+
+	private async lastBefore(
+		streamPartId: StreamPartID,
+		{
 			count,
-		});
+			beforeTimestamp,
+			beforeSequenceNumber,
+		}: {
+			count: number;
+			beforeTimestamp: number;
+			beforeSequenceNumber?: number;
+		},
+		baseOptions?: QueryBaseOptions
+	): Promise<MessageStream> {
+		if (count <= 0) {
+			const emptyStream = new MessageStream();
+			emptyStream.endWrite();
+			return emptyStream;
+		}
+
+		return this.fetchStream(
+			QueryType.LastBefore,
+			streamPartId,
+			{
+				count,
+				beforeTimestamp,
+				beforeSequenceNumber,
+			},
+			baseOptions
+		);
 	}
 
 	private async from(
@@ -243,13 +1940,19 @@ export class Queries implements IResends {
 			fromTimestamp: number;
 			fromSequenceNumber?: number;
 			publisherId?: EthereumAddress;
-		}
+		},
+		baseOptions?: QueryBaseOptions
 	): Promise<MessageStream> {
-		return this.fetchStream(QueryType.From, streamPartId, {
-			fromTimestamp,
-			fromSequenceNumber,
-			publisherId,
-		});
+		return this.fetchStream(
+			QueryType.From,
+			streamPartId,
+			{
+				fromTimestamp,
+				fromSequenceNumber,
+				publisherId,
+			},
+			baseOptions
+		);
 	}
 
 	async range(
@@ -268,27 +1971,34 @@ export class Queries implements IResends {
 			toSequenceNumber?: number;
 			publisherId?: EthereumAddress;
 			msgChainId?: string;
-		}
+		},
+		baseOptions?: QueryBaseOptions
 	): Promise<MessageStream> {
-		return this.fetchStream(QueryType.Range, streamPartId, {
-			fromTimestamp,
-			fromSequenceNumber,
-			toTimestamp,
-			toSequenceNumber,
-			publisherId,
-			msgChainId,
-		});
+		return this.fetchStream(
+			QueryType.Range,
+			streamPartId,
+			{
+				fromTimestamp,
+				fromSequenceNumber,
+				toTimestamp,
+				toSequenceNumber,
+				publisherId,
+				msgChainId,
+			},
+			baseOptions
+		);
 	}
 
 	private createUrl(
 		baseUrl: string,
 		endpointSuffix: string,
 		streamPartId: StreamPartID,
-		query: QueryDict = {}
+		query: QueryDict = {},
+		format = QueryResponseFormat.Raw
 	): string {
 		const queryMap = {
 			...query,
-			format: 'raw',
+			format,
 		};
 		const [streamId, streamPartition] =
 			StreamPartIDUtils.getStreamIDAndPartition(streamPartId);
@@ -0,0 +1,157 @@
+import { MessageMetadata, StreamrClientError } from '@logsn/streamr-client';
+import { ethers } from 'ethers';
+import { Base64 } from 'js-base64';
+
+const CURSOR_VERSION = 2;
+
+/**
+ * The position of a paginated query, right after the last message of a page.
+ */
+export interface QueryCursorPosition {
+	timestamp: number;
+	sequenceNumber: number;
+	publisherId: string;
+	msgChainId: string;
+	/** The number of messages still to be delivered by a query of the latest "n" messages */
+	remaining?: number;
+}
+
+type QueryCursorPayload = [
+	version: number,
+	fingerprint: string,
+	timestamp: number,
+	sequenceNumber: number,
+	publisherId: string,
+	msgChainId: string,
+	remaining: number | null
+];
+
+// Orders the keys of the objects, so that the same query options always serialize the same way
+const sortKeys = (_key: string, value: unknown): unknown =>
+	value !== null && typeof value === 'object' && !Array.isArray(value)
+		? Object.fromEntries(
+				Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+		  )
+		: value;
+
+/**
+ * Identifies a query by its stream part and the options which define its result,
+ * so that a cursor is not used to continue another query.
+ */
+export const createQueryFingerprint = (
+	streamPartId: string,
+	query: Record<string, unknown>
+): string =>
+	ethers.utils.id(JSON.stringify([streamPartId, query], sortKeys)).slice(2, 18);
+
+export const encodeQueryCursor = (
+	fingerprint: string,
+	{
+		timestamp,
+		sequenceNumber,
+		publisherId,
+		msgChainId,
+		remaining,
+	}: QueryCursorPosition
+): string => {
+	const payload: QueryCursorPayload = [
+		CURSOR_VERSION,
+		fingerprint,
+		timestamp,
+		sequenceNumber,
+		publisherId,
+		msgChainId,
+		remaining ?? null,
+	];
+	return Base64.encodeURI(JSON.stringify(payload));
+};
+
+const isQueryCursorPayload = (
+	payload: unknown
+): payload is QueryCursorPayload => {
+	if (!Array.isArray(payload) || payload.length !== 7) {
+		return false;
+	}
+	const [
+		version,
+		fingerprint,
+		timestamp,
+		sequenceNumber,
+		publisherId,
+		msgChainId,
+		remaining,
+	] = payload;
+	return (
+		version === CURSOR_VERSION &&
+		typeof fingerprint === 'string' &&
+		typeof timestamp === 'number' &&
+		typeof sequenceNumber === 'number' &&
+		typeof publisherId === 'string' &&
+		typeof msgChainId === 'string' &&
+		(remaining === null || typeof remaining === 'number')
+	);
+};
+
+/**
+ * Decodes the position of a cursor, which must have been created for the query
+ * with the given fingerprint.
+ */
+export const decodeQueryCursor = (
+	cursor: string,
+	fingerprint: string
+): QueryCursorPosition => {
+	let payload: unknown;
+	try {
+		payload = JSON.parse(Base64.decode(cursor));
+	} catch (err) {
+		throw new StreamrClientError(
+			`invalid query cursor: ${cursor}`,
+			'INVALID_ARGUMENT'
+		);
+	}
+	if (!isQueryCursorPayload(payload)) {
+		throw new StreamrClientError(
+			`invalid query cursor: ${cursor}`,
+			'INVALID_ARGUMENT'
+		);
+	}
+
+	const [
+		,
+		cursorFingerprint,
+		timestamp,
+		sequenceNumber,
+		publisherId,
+		msgChainId,
+		remaining,
+	] = payload;
+	if (cursorFingerprint !== fingerprint) {
+		throw new StreamrClientError(
+			`query cursor belongs to another query: ${cursor}`,
+			'INVALID_ARGUMENT'
+		);
+	}
+
+	return {
+		timestamp,
+		sequenceNumber,
+		publisherId,
+		msgChainId,
+		remaining: remaining ?? undefined,
+	};
+};
+
+export const isCursorMessage = (
+	cursor: QueryCursorPosition,
+	message: Pick<
+		MessageMetadata,
+		'timestamp' | 'sequenceNumber' | 'publisherId' | 'msgChainId'
+	>
+): boolean => {
+	return (
+		message.timestamp === cursor.timestamp &&
+		message.sequenceNumber === cursor.sequenceNumber &&
+		message.publisherId.toLowerCase() === cursor.publisherId.toLowerCase() &&
+		message.msgChainId === cursor.msgChainId
+	);
+};
@@ -0,0 +1,94 @@
+import { StreamrClientError } from '@logsn/streamr-client';
+
+import { getQueryFilterField, parseQueryFilterPath } from './QueryFilter';
+
+/**
+ * A message decoded by the node, as returned in the `object` response format.
+ * The content of encrypted streams is left encrypted.
+ */
+export interface QueryRecord {
+	streamId: string;
+	streamPartition: number;
+	timestamp: number;
+	sequenceNumber: number;
+	publisherId: string;
+	msgChainId: string;
+	signature: string;
+	content: unknown;
+}
+
+/**
+ * The CSV columns to write, mapping the name of each column to the JSON path of its value
+ * in the record, e.g. `{ temperature: '$.content.sensor.temperature' }`.
+ */
+export type QueryCsvColumns = Record<string, string>;
+
+export const DEFAULT_QUERY_CSV_COLUMNS: QueryCsvColumns = {
+	timestamp: '$.timestamp',
+	sequenceNumber: '$.sequenceNumber',
+	publisherId: '$.publisherId',
+	msgChainId: '$.msgChainId',
+	content: '$.content',
+};
+
+export type QueryExportOptions =
+	| { format: 'ndjson' }
+	| { format: 'csv'; columns?: QueryCsvColumns };
+
+/**
+ * Writes each record as a line of JSON.
+ */
+export async function* toNdjson(
+	records: AsyncIterable<unknown>
+): AsyncGenerator<string> {
+	for await (const record of records) {
+		yield `${JSON.stringify(record)}\n`;
+	}
+}
+
+const toCsvField = (value: unknown): string => {
+	if (value === undefined || value === null) {
+		return '';
+	}
+	const text =
+		typeof value === 'object' ? JSON.stringify(value) : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Writes a header line with the column names, and a line per record with the values at
+ * the paths of the columns. Objects and arrays are written as JSON, absent values as empty fields.
+ */
+export async function* toCsv(
+	records: AsyncIterable<unknown>,
+	columns: QueryCsvColumns = DEFAULT_QUERY_CSV_COLUMNS
+): AsyncGenerator<string> {
+	const paths = Object.values(columns).map(parseQueryFilterPath);
+	yield `${Object.keys(columns).map(toCsvField).join(',')}\n`;
+	for await (const record of records) {
+		const fields = paths.map(
+			(segments) => getQueryFilterField(record, segments).value
+		);
+		yield `${fields.map(toCsvField).join(',')}\n`;
+	}
+}
+
+/**
+ * Writes the records in the format of the options.
+ */
+export const exportQueryRecords = (
+	records: AsyncIterable<unknown>,
+	options: QueryExportOptions
+): AsyncGenerator<string> => {
+	switch (options.format) {
+		case 'ndjson':
+			return toNdjson(records);
+		case 'csv':
+			return toCsv(records, options.columns);
+		default:
+			throw new StreamrClientError(
+				`unsupported export format: ${(options as { format: string }).format}`,
+				'INVALID_ARGUMENT'
+			);
+	}
+};
@@ -0,0 +1,117 @@
+import { QueryFilter } from '@logsn/protocol';
+import { StreamrClientError } from '@logsn/streamr-client';
+
+// The nodes apply the same filters, so their type is defined by the protocol
+export { QueryFilter, QueryFilterValue } from '@logsn/protocol';
+
+const PATH_SEGMENT = /\.([^.[\]]+)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/y;
+
+/**
+ * Splits a JSON path like `$.a.b[0]['c.d']` into its segments.
+ */
+export const parseQueryFilterPath = (path: string): (string | number)[] => {
+	const normalized = path.startsWith('$') ? path.slice(1) : `.${path}`;
+	const segments: (string | number)[] = [];
+	PATH_SEGMENT.lastIndex = 0;
+	while (PATH_SEGMENT.lastIndex < normalized.length) {
+		const match = PATH_SEGMENT.exec(normalized);
+		if (match === null) {
+			throw new StreamrClientError(
+				`invalid query filter path: ${path}`,
+				'INVALID_ARGUMENT'
+			);
+		}
+		const [, key, index, singleQuoted, doubleQuoted] = match;
+		segments.push(
+			index !== undefined ? Number(index) : key ?? singleQuoted ?? doubleQuoted
+		);
+	}
+	return segments;
+};
+
+/**
+ * Reads the field at the parsed path, telling an absent field apart from one set to `undefined`.
+ */
+export const getQueryFilterField = (
+	content: unknown,
+	segments: (string | number)[]
+): { found: boolean; value?: unknown } => {
+	let value: unknown = content;
+	for (const segment of segments) {
+		if (
+			value === null ||
+			typeof value !== 'object' ||
+			!Object.prototype.hasOwnProperty.call(value, segment)
+		) {
+			return { found: false };
+		}
+		value = (value as Record<string | number, unknown>)[segment];
+	}
+	return { found: true, value };
+};
+
+/**
+ * The order of the field relative to the bound, or undefined if they are not both numbers
+ * or both strings.
+ */
+const compareToBound = (
+	value: unknown,
+	bound: number | string
+): number | undefined => {
+	if (typeof value === 'number' && typeof bound === 'number') {
+		// NaN is not ordered, but the infinities are equal to themselves
+		return value === bound ? 0 : value - bound;
+	}
+	if (typeof value === 'string' && typeof bound === 'string') {
+		return value < bound ? -1 : value > bound ? 1 : 0;
+	}
+	return undefined;
+};
+
+const matchesFilter = (content: unknown, filter: QueryFilter): boolean => {
+	const { found, value } = getQueryFilterField(
+		content,
+		parseQueryFilterPath(filter.path)
+	);
+	if (filter.exists !== undefined && filter.exists !== found) {
+		return false;
+	}
+	if (filter.eq !== undefined && !(found && value === filter.eq)) {
+		return false;
+	}
+	if (filter.ne !== undefined && found && value === filter.ne) {
+		return false;
+	}
+
+	const bounds: [number | string | undefined, (order: number) => boolean][] = [
+		[filter.gt, (order) => order > 0],
+		[filter.gte, (order) => order >= 0],
+		[filter.lt, (order) => order < 0],
+		[filter.lte, (order) => order <= 0],
+	];
+	return bounds.every(([bound, accepts]) => {
+		if (bound === undefined) {
+			return true;
+		}
+		const order = found ? compareToBound(value, bound) : undefined;
+		return order !== undefined && accepts(order);
+	});
+};
+
+/**
+ * Checks the content of a message against all the filters.
+ */
+export const matchesQueryFilters = (
+	content: unknown,
+	filters: QueryFilter[]
+): boolean => filters.every((filter) => matchesFilter(content, filter));
+
+export const validateQueryFilters = (filters: QueryFilter[]): void => {
+	if (!Array.isArray(filters)) {
+		throw new StreamrClientError(
+			'query filter must be an array',
+			'INVALID_ARGUMENT'
+		);
+	}
+	filters.forEach((filter) => parseQueryFilterPath(filter.path));
+};
@@ -0,0 +1,88 @@
+import { SessionToken } from '@logsn/protocol';
+import {
+	Authentication,
+	AuthenticationInjectionToken,
+	LoggerFactory,
+} from '@logsn/streamr-client';
+import { Logger } from '@streamr/utils';
+import { ethers } from 'ethers';
+import { inject, Lifecycle, scoped } from 'tsyringe';
+
+import {
+	LogStoreClientConfigInjectionToken,
+	StrictLogStoreClientConfig,
+} from './Config';
+
+// The share of the lifetime of a token left when it is refreshed, so that it doesn't expire in flight
+const SESSION_TOKEN_REFRESH_SHARE = 0.1;
+
+/**
+ * Signs a session token once and reuses it for the queries until it is about to expire,
+ * instead of signing every query.
+ */
+@scoped(Lifecycle.ContainerScoped)
+export class SessionTokenManager {
+	private readonly authentication: Authentication;
+	private readonly config: Pick<StrictLogStoreClientConfig, 'queries'>;
+	private readonly logger: Logger;
+	private token?: SessionToken;
+	private pendingToken?: Promise<SessionToken>;
+
+	constructor(
+		@inject(AuthenticationInjectionToken)
+		authentication: Authentication,
+		@inject(LogStoreClientConfigInjectionToken)
+		config: Pick<StrictLogStoreClientConfig, 'queries'>,
+		@inject(LoggerFactory)
+		loggerFactory: LoggerFactory
+	) {
+		this.authentication = authentication;
+		this.config = config;
+		this.logger = loggerFactory.createLogger(module);
+	}
+
+	/**
+	 * The serialized session token, signed anew if there is none or it is about to expire.
+	 */
+	async getToken(): Promise<string> {
+		const refreshMargin =
+			this.config.queries.sessionTokenTtl * SESSION_TOKEN_REFRESH_SHARE;
+		if (
+			this.token === undefined ||
+			this.token.isExpired(Date.now() + refreshMargin)
+		) {
+			this.pendingToken ??= this.createToken().finally(() => {
+				this.pendingToken = undefined;
+			});
+			this.token = await this.pendingToken;
+		}
+		return this.token.serialize();
+	}
+
+	/**
+	 * Drops the cached token, e.g. when a node rejected it as expired.
+	 */
+	invalidate(): void {
+		this.token = undefined;
+	}
+
+	private async createToken(): Promise<SessionToken> {
+		const address = await this.authentication.getAddress();
+		const issuedAt = Date.now();
+		const token = new SessionToken({
+			address,
+			issuedAt,
+			expiresAt: issuedAt + this.config.queries.sessionTokenTtl,
+			nonce: ethers.utils.hexlify(ethers.utils.randomBytes(16)),
+		});
+		token.signature = await this.authentication.createMessageSignature(
+			token.getChallenge()
+		);
+		this.logger.debug(
+			'signed a session token for %s expiring at %d',
+			address,
+			token.expiresAt
+		);
+		return token;
+	}
+}
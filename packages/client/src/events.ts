@@ -2,13 +2,37 @@ import type { StreamrClientEvents } from '@logsn/streamr-client';
 import EventEmitter3 from 'eventemitter3';
 import { Lifecycle, scoped } from 'tsyringe';
 
-import { LogStoreAssignmentEvent } from './registry/LogStoreRegistry';
+import {
+	QueryDivergenceEvent,
+	QueryGapFillEvent,
+	QueryProgressEvent,
+} from './Queries';
+import {
+	LogStoreAssignmentEvent,
+	LogStoreRemovalEvent,
+} from './registry/LogStoreRegistry';
+import { LogStoreNode } from './registry/NodeSelection';
+import {
+	CaptureOverflowEvent,
+	DataQueriedEvent,
+	DataStoredEvent,
+	SupplyOverflowEvent,
+} from './registry/UsageRegistry';
 
 type Events<T> = { [K in keyof T]: (payload: any) => void };
 
 export interface LogStoreClientEvents extends StreamrClientEvents {
 	addToLogStore: (payload: LogStoreAssignmentEvent) => void;
-	removeFromLogStore: (payload: LogStoreAssignmentEvent) => void;
+	removeFromLogStore: (payload: LogStoreRemovalEvent) => void;
+	queryDivergence: (payload: QueryDivergenceEvent) => void;
+	queryProgress: (payload: QueryProgressEvent) => void;
+	queryGapFill: (payload: QueryGapFillEvent) => void;
+	nodeJoined: (payload: LogStoreNode) => void;
+	nodeLeft: (payload: LogStoreNode) => void;
+	dataStored: (payload: DataStoredEvent) => void;
+	dataQueried: (payload: DataQueriedEvent) => void;
+	captureOverflow: (payload: CaptureOverflowEvent) => void;
+	supplyOverflow: (payload: SupplyOverflowEvent) => void;
 }
 
 // events for internal communication between StreamrClient components
@@ -1,9 +1,87 @@
 export * from '@logsn/streamr-client';
 export { validateConfig } from './Config';
 export { CONFIG_TEST } from './ConfigTest';
+export { ConsensusError } from './Consensus';
 export { LogStoreClientEvents } from './events';
+export {
+	ErrorCode,
+	HttpError,
+	InsufficientQueryStakeError,
+	NodeOverloadedError,
+	NotFoundError,
+	RateLimitedError,
+	SessionTokenExpiredError,
+	StreamNotStoredError,
+	UnauthorizedError,
+	ValidationError,
+} from './HttpUtil';
+export { ContractError } from './ContractError';
 export { LogStoreClient } from './LogStoreClient';
 export { LogStoreClientConfig } from './LogStoreClientConfig';
-export { NodeMetadata } from './NodeMetadata';
-export { LogStoreAssignmentEvent } from './registry/LogStoreRegistry';
+export {
+	createNodeMetadata,
+	NodeMetadata,
+	NodeMetadataOptions,
+	parseNodeMetadata,
+	serializeNodeMetadata,
+	updateNodeMetadata,
+} from './NodeMetadata';
+export {
+	AggregateFunction,
+	QueryAggregateBucket,
+	QueryAggregateOptions,
+	QueryCancellationReason,
+	QueryCancelledError,
+	QueryDivergenceEvent,
+	QueryDivergentNode,
+	QueryFanOutError,
+	QueryEstimate,
+	QueryFromOptions,
+	QueryGapFillEvent,
+	QueryGapFillOptions,
+	QueryOptions,
+	QueryPage,
+	QueryPageOptions,
+	QueryProgressEvent,
+} from './Queries';
+export {
+	DEFAULT_QUERY_CSV_COLUMNS,
+	QueryCsvColumns,
+	QueryExportOptions,
+	QueryRecord,
+	toCsv,
+	toNdjson,
+} from './QueryExport';
+export { QueryFilter, QueryFilterValue } from './QueryFilter';
+export {
+	LogStoreAssignmentEvent,
+	LogStoreRemovalEvent,
+	StoreInfo,
+	StoreStakeholder,
+} from './registry/LogStoreRegistry';
+export {
+	NodeJoinResult,
+	NodeTransactionResult,
+	NodeUpdatedResult,
+	StakeDelegateResult,
+} from './registry/NodeRegistry';
+export { LogStoreNode, NodeSelectionStrategy } from './registry/NodeSelection';
+export {
+	LogStoreReport,
+	ReportVerificationError,
+} from './registry/ReportRegistry';
+export {
+	CaptureOverflowEvent,
+	DataQueriedEvent,
+	DataStoredEvent,
+	filterUsageEvents,
+	QueryCaptureOverflowEvent,
+	QueryUsage,
+	StoreCaptureOverflowEvent,
+	StoreUsage,
+	SupplyOverflowEvent,
+	UsageFilter,
+	UsageRange,
+	UsageRecord,
+} from './registry/UsageRegistry';
 export { formLogStoreSystemStreamId } from './utils/utils';
@@ -4,6 +4,7 @@ import type { LogStoreManager as LogStoreManagerContract } from '@logsn/contract
 import { abi as LogStoreManagerAbi } from '@logsn/contracts/artifacts/src/StoreManager.sol/LogStoreManager.json';
 import {
 	getQueryManagerContract,
+	getTokenManagerContract,
 	prepareStakeForQueryManager,
 	prepareStakeForStoreManager,
 } from '@logsn/shared';
@@ -18,8 +19,9 @@ import {
 	StreamIDBuilder,
 	waitForTx,
 } from '@logsn/streamr-client';
-import { toStreamID } from '@streamr/protocol';
-import { Logger, toEthereumAddress } from '@streamr/utils';
+import { StreamID, toStreamID } from '@streamr/protocol';
+import { EthereumAddress, Logger, toEthereumAddress } from '@streamr/utils';
+import { ethers } from 'ethers';
 import { min } from 'lodash';
 import { delay, inject, Lifecycle, scoped } from 'tsyringe';
 
@@ -39,6 +41,57 @@ import {
 import { LogStoreClient } from '../LogStoreClient';
 import { SynchronizedGraphQLClient } from '../utils/SynchronizedGraphQLClient';
 
+export interface StoreStakeholder {
+	address: EthereumAddress;
+	/** The stake of the stakeholder left in the store */
+	balance: bigint;
+}
+
+export interface StoreInfo {
+	streamId: StreamID;
+	/** The stake left in the store, which pays for the data stored */
+	stake: bigint;
+	stakeholders: StoreStakeholder[];
+	/** The stake of the client left in the store */
+	ownBalance: bigint;
+	/** The total number of bytes stored for the stream */
+	bytesStored: bigint;
+	/** The total fees paid from the stake for the data stored */
+	feesPaid: bigint;
+	/**
+	 * Estimated time in milliseconds until the stake runs out, at the rate of the fees of the
+	 * data stored recently. Undefined if no data was stored recently.
+	 */
+	runway?: number;
+}
+
+// The period of the recent fees the runway of a store is estimated from
+const STORE_RUNWAY_WINDOW = 7 * 24 * 60 * 60 * 1000;
+
+// The most stakeholders of a store read before giving up, so that a contract which never
+// reverts can't keep the client reading
+const MAX_STORE_STAKEHOLDERS = 1000;
+
+// The panic code of Solidity for an index out of the range of an array
+const PANIC_INDEX_OUT_OF_RANGE = 0x32;
+
+/**
+ * Whether the error is the revert of a read of an array of a contract at an index out of its
+ * range. The contracts of the streamr client wrap the error of ethers as the reason of their
+ * error.
+ */
+const isIndexOutOfRange = (err: any): boolean => {
+	const cause = err?.reason?.code !== undefined ? err.reason : err;
+	if (cause?.code !== ethers.errors.CALL_EXCEPTION) {
+		return false;
+	}
+	if (cause.errorName === 'Panic') {
+		return BigNumber.from(cause.errorArgs[0]).eq(PANIC_INDEX_OUT_OF_RANGE);
+	}
+	// The getters of the public arrays revert without data
+	return cause.data === '0x';
+};
+
 export interface LogStoreAssignmentEvent {
 	readonly store: string;
 	readonly isNew: boolean;
@@ -46,6 +99,14 @@ export interface LogStoreAssignmentEvent {
 	readonly blockNumber: number;
 }
 
+export interface LogStoreRemovalEvent {
+	readonly store: string;
+	/** Whether the whole stake of the store was withdrawn */
+	readonly isRemoved: boolean;
+	readonly amount: BigNumber;
+	readonly blockNumber: number;
+}
+
 /**
  * Stores storage node assignments (mapping of streamIds <-> storage nodes addresses)
  */
@@ -103,32 +164,55 @@ export class LogStoreRegistry {
 		this.initStreamAssignmentEventListener(
 			'addToLogStore',
 			'StoreUpdated',
+			(store, isNew, amount, blockNumber): LogStoreAssignmentEvent => ({
+				store,
+				isNew,
+				amount,
+				blockNumber,
+			}),
+			eventEmitter
+		);
+		this.initStreamAssignmentEventListener(
+			'removeFromLogStore',
+			'StoreWithdrawn',
+			(store, isRemoved, amount, blockNumber): LogStoreRemovalEvent => ({
+				store,
+				isRemoved,
+				amount,
+				blockNumber,
+			}),
 			eventEmitter
 		);
 	}
 
 	// TODO: Log Store doesn't actually add Streams to storage directly via the Client...
-	private initStreamAssignmentEventListener(
-		clientEvent: keyof LogStoreClientEvents,
+	private initStreamAssignmentEventListener<
+		E extends 'addToLogStore' | 'removeFromLogStore'
+	>(
+		clientEvent: E,
 		contractEvent: string,
+		toPayload: (
+			store: string,
+			flag: boolean,
+			amount: BigNumber,
+			blockNumber: number
+		) => Parameters<LogStoreClientEvents[E]>[0],
 		eventEmitter: LogStoreClientEventEmitter
 	) {
 		const primaryReadonlyContract = this.logStoreManagerContractsReadonly[0];
 		type Listener = (
 			store: string,
-			isNew: boolean,
+			flag: boolean,
 			amount: BigNumber,
-			address: string,
 			extra: any
 		) => void;
-		// type Listener = (streamId: string, nodeAddress: string, extra: any) => void;
 		this.logger.debug('initStreamAssignmentEventListener');
 		initEventGateway(
 			clientEvent,
-			(emit: (payload: LogStoreAssignmentEvent) => void) => {
+			(emit) => {
 				const listener = (
 					store: string,
-					isNew: boolean,
+					flag: boolean,
 					amount: BigNumber,
 					extra: any
 				) => {
@@ -137,13 +221,7 @@ export class LogStoreRegistry {
 						contractEvent,
 						store
 					);
-					emit({
-						store,
-						isNew,
-						amount,
-						// nodeAddress: toEthereumAddress(nodeAddress),
-						blockNumber: extra.blockNumber,
-					});
+					emit(toPayload(store, flag, amount, extra.blockNumber));
 				};
 				primaryReadonlyContract.on(contractEvent, listener);
 				return listener;
@@ -190,6 +268,41 @@ export class LogStoreRegistry {
 		);
 	}
 
+	/**
+	 * Requests the withdrawal of the stake of the client from the store of a stream. The stake
+	 * can be withdrawn once the withdraw delay of the contract has passed, so that the data
+	 * stored until the request is still paid for.
+	 * @returns the time in milliseconds the withdrawal unlocks at
+	 */
+	async requestStoreWithdrawal(streamIdOrPath: string): Promise<number> {
+		const streamId = await this.streamIdBuilder.toStreamID(streamIdOrPath);
+		this.logger.debug('requesting a withdrawal from the store of %s', streamId);
+		await this.connectToContract();
+		const ethersOverrides = getStreamRegistryOverrides(this.clientConfig);
+		await waitForTx(
+			this.logStoreManagerContract!.requestWithdraw(streamId, ethersOverrides)
+		);
+		const unlocksAt = await this.logStoreManagerContract!.withdrawUnlocksAt(
+			await this.authentication.getAddress(),
+			streamId
+		);
+		return unlocksAt.toNumber() * 1000;
+	}
+
+	/**
+	 * Withdraws the amount of the stake of the client from the store of a stream, once the
+	 * withdrawal requested with {@link requestStoreWithdrawal} has unlocked.
+	 */
+	async withdrawStore(streamIdOrPath: string, amount: bigint): Promise<void> {
+		const streamId = await this.streamIdBuilder.toStreamID(streamIdOrPath);
+		this.logger.debug('withdrawing %s from the store of %s', amount, streamId);
+		await this.connectToContract();
+		const ethersOverrides = getStreamRegistryOverrides(this.clientConfig);
+		await waitForTx(
+			this.logStoreManagerContract!.withdraw(streamId, amount, ethersOverrides)
+		);
+	}
+
 	async queryStake(
 		amount: BigNumberish,
 		options = { usd: false }
@@ -205,6 +318,54 @@ export class LogStoreRegistry {
 		await (await queryManagerContract.stake(stakeAmount)).wait();
 	}
 
+	/**
+	 * Requests the withdrawal of the stake of the client for queries. The stake can be
+	 * withdrawn once the withdraw delay of the contract has passed, so that the queries until
+	 * the request are still paid for.
+	 * @returns the time in milliseconds the withdrawal unlocks at
+	 */
+	async requestQueryStakeWithdrawal(): Promise<number> {
+		const chainSigner =
+			await this.authentication.getStreamRegistryChainSigner();
+		const queryManagerContract = await getQueryManagerContract(chainSigner);
+		const ethersOverrides = getStreamRegistryOverrides(this.clientConfig);
+		await waitForTx(queryManagerContract.requestWithdraw(ethersOverrides));
+		const unlocksAt = await queryManagerContract.withdrawUnlocksAt(
+			await chainSigner.getAddress()
+		);
+		return unlocksAt.toNumber() * 1000;
+	}
+
+	/**
+	 * Withdraws the amount of the stake of the client for queries, once the withdrawal
+	 * requested with {@link requestQueryStakeWithdrawal} has unlocked.
+	 */
+	async withdrawQueryStake(amount: bigint): Promise<void> {
+		const chainSigner =
+			await this.authentication.getStreamRegistryChainSigner();
+		const queryManagerContract = await getQueryManagerContract(chainSigner);
+		const ethersOverrides = getStreamRegistryOverrides(this.clientConfig);
+		await waitForTx(queryManagerContract.withdraw(amount, ethersOverrides));
+	}
+
+	async getQueryBalance(): Promise<bigint> {
+		const address = await this.authentication.getAddress();
+		const queryManagerContract = await getQueryManagerContract(
+			getStreamRegistryChainProviders(this.clientConfig)[0]
+		);
+		return (await queryManagerContract.balanceOf(address)).toBigInt();
+	}
+
+	/**
+	 * The price of storing a byte, in LSAN.
+	 */
+	async getPrice(): Promise<bigint> {
+		const tokenManagerContract = await getTokenManagerContract(
+			getStreamRegistryChainProviders(this.clientConfig)[0]
+		);
+		return (await tokenManagerContract.price()).toBigInt();
+	}
+
 	async isLogStoreStream(streamIdOrPath: string): Promise<boolean> {
 		const streamId = await this.streamIdBuilder.toStreamID(streamIdOrPath);
 		this.logger.debug('querying if stream %s is in LogStore', streamId);
@@ -275,6 +436,117 @@ export class LogStoreRegistry {
 		};
 	}
 
+	/**
+	 * The stake left in the store of a stream, its stakeholders, and the fees of the data stored.
+	 */
+	async getStoreInfo(streamIdOrPath: string): Promise<StoreInfo> {
+		const streamId = await this.streamIdBuilder.toStreamID(streamIdOrPath);
+		this.logger.debug('getting the store info of stream %s', streamId);
+		const [stake, stakeholderAddresses, ownAddress, dataStored] =
+			await Promise.all([
+				queryAllReadonlyContracts((contract: LogStoreManagerContract) => {
+					return contract.stores(streamId);
+				}, this.logStoreManagerContractsReadonly),
+				this.getStoreStakeholderAddresses(streamId),
+				this.authentication.getAddress(),
+				collect(
+					this.graphQLClient.fetchPaginatedResults<{
+						id: string;
+						fees: string;
+						bytesStored: string;
+						blockTimestamp: string;
+					}>((lastId: string, pageSize: number) => {
+						const query = `
+						{
+							dataStoreds(first: ${pageSize}, orderBy: id where: {store: ${JSON.stringify(
+							streamId
+						)}, id_gt: "${lastId}"}) {
+								id
+								fees
+								bytesStored
+								blockTimestamp
+							}
+						}`;
+						return { query };
+					})
+				),
+			]);
+		const stakeholders = await Promise.all(
+			stakeholderAddresses.map(async (address) => ({
+				address,
+				balance: (
+					await queryAllReadonlyContracts(
+						(contract: LogStoreManagerContract) => {
+							return contract.storeBalanceOf(address, streamId);
+						},
+						this.logStoreManagerContractsReadonly
+					)
+				).toBigInt(),
+			}))
+		);
+
+		let bytesStored = BigInt(0);
+		let feesPaid = BigInt(0);
+		let recentFees = BigInt(0);
+		const windowStart = Date.now() - STORE_RUNWAY_WINDOW;
+		for (const event of dataStored) {
+			bytesStored += BigInt(event.bytesStored);
+			feesPaid += BigInt(event.fees);
+			// The subgraph records the time in seconds
+			if (Number(event.blockTimestamp) * 1000 >= windowStart) {
+				recentFees += BigInt(event.fees);
+			}
+		}
+
+		return {
+			streamId,
+			stake: stake.toBigInt(),
+			stakeholders,
+			ownBalance:
+				stakeholders.find(({ address }) => address === ownAddress)?.balance ??
+				BigInt(0),
+			bytesStored,
+			feesPaid,
+			runway:
+				recentFees > BigInt(0)
+					? Number(
+							(stake.toBigInt() * BigInt(STORE_RUNWAY_WINDOW)) / recentFees
+					  )
+					: undefined,
+		};
+	}
+
+	/**
+	 * The contract has no getter for the length of the stakeholders of a store,
+	 * so they are read by index until the index is out of range.
+	 */
+	private async getStoreStakeholderAddresses(
+		streamId: StreamID
+	): Promise<EthereumAddress[]> {
+		const primaryReadonlyContract = this.logStoreManagerContractsReadonly[0];
+		const addresses: EthereumAddress[] = [];
+		while (addresses.length < MAX_STORE_STAKEHOLDERS) {
+			try {
+				addresses.push(
+					toEthereumAddress(
+						await primaryReadonlyContract.storeStakeholders(
+							streamId,
+							addresses.length
+						)
+					)
+				);
+			} catch (err) {
+				if (isIndexOutOfRange(err)) {
+					return addresses;
+				}
+				throw err;
+			}
+		}
+		throw new Error(
+			`Store of stream ${streamId} has more than ${MAX_STORE_STAKEHOLDERS} stakeholders`
+		);
+	}
+
 	// --------------------------------------------------------------------------------------------
 	// Events
 	// --------------------------------------------------------------------------------------------
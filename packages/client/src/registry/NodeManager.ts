@@ -1,13 +1,15 @@
+import { BigNumber } from '@ethersproject/bignumber';
 import { Provider } from '@ethersproject/providers';
 import { LogStoreNodeManager as LogStoreNodeManagerContract } from '@logsn/contracts';
 import { abi as LogStoreNodeManagerAbi } from '@logsn/contracts/artifacts/src/NodeManager.sol/LogStoreNodeManager.json';
 import {
 	ContractFactory,
+	DestroySignal,
 	LoggerFactory,
 	queryAllReadonlyContracts,
 } from '@logsn/streamr-client';
-import { Logger, toEthereumAddress } from '@streamr/utils';
-import { shuffle } from 'lodash';
+import { EthereumAddress, Logger, toEthereumAddress } from '@streamr/utils';
+import { partition } from 'lodash';
 import { inject, Lifecycle, scoped } from 'tsyringe';
 
 import {
@@ -15,24 +17,70 @@ import {
 	StrictLogStoreClientConfig,
 } from '../Config';
 import { getStreamRegistryChainProviders } from '../Ethereum';
-import { NodeMetadata } from '../NodeMetadata';
+import { LogStoreClientEventEmitter } from '../events';
+import {
+	getUnsupportedNodeReason,
+	NodeMetadata,
+	parseNodeMetadata,
+} from '../NodeMetadata';
+import { unrefTimer } from '../utils/utils';
+import {
+	LogStoreNode,
+	NodeHealth,
+	NodeSelectionStrategy,
+	orderNodeUrls,
+} from './NodeSelection';
+
+// How often the directory of the nodes is read from the contract again, in case events were missed
+const NODES_RECONCILE_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * What a node has to serve to be picked for a query.
+ */
+export interface NodeCapabilities {
+	queryType?: string;
+	queryFormat?: string;
+}
 
 @scoped(Lifecycle.ContainerScoped)
 export class NodeManager {
 	private contractFactory: ContractFactory;
-	private clientConfig: Pick<StrictLogStoreClientConfig, 'contracts'>;
+	private readonly eventEmitter: LogStoreClientEventEmitter;
+	private readonly destroySignal: DestroySignal;
+	private clientConfig: Pick<
+		StrictLogStoreClientConfig,
+		'contracts' | 'nodeSelection'
+	>;
 	private readonly logStoreManagerContractsReadonly: LogStoreNodeManagerContract[];
 	private readonly logger: Logger;
+	private readonly health = new NodeHealth();
+	private roundRobinIndex = 0;
+	private readonly nodes = new Map<EthereumAddress, LogStoreNode>();
+	// The stakes of all the registered nodes, including the ones left out of the directory
+	private readonly stakes = new Map<EthereumAddress, bigint>();
+	private directory?: Promise<void>;
+	private directorySyncedAt?: number;
+	private directorySync?: () => void;
+	private stakeRequiredAmount = BigInt(0);
 
 	constructor(
 		@inject(ContractFactory)
 		contractFactory: ContractFactory,
+		@inject(LogStoreClientEventEmitter)
+		eventEmitter: LogStoreClientEventEmitter,
+		@inject(DestroySignal)
+		destroySignal: DestroySignal,
 		@inject(LoggerFactory)
 		loggerFactory: LoggerFactory,
 		@inject(LogStoreClientConfigInjectionToken)
-		clientConfig: Pick<StrictLogStoreClientConfig, 'contracts'>
+		clientConfig: Pick<
+			StrictLogStoreClientConfig,
+			'contracts' | 'nodeSelection'
+		>
 	) {
 		this.contractFactory = contractFactory;
+		this.eventEmitter = eventEmitter;
+		this.destroySignal = destroySignal;
 		this.clientConfig = clientConfig;
 		this.logger = loggerFactory.createLogger(module);
 		this.logStoreManagerContractsReadonly = getStreamRegistryChainProviders(
@@ -49,33 +97,275 @@ export class NodeManager {
 		});
 	}
 
-	async getRandomNodeUrl() {
-		const nodeAddresses = shuffle(
-			await queryAllReadonlyContracts(
-				(contract: LogStoreNodeManagerContract) => {
-					return contract.nodeAddresses();
-				},
-				this.logStoreManagerContractsReadonly
-			)
+	async getNodeUrl(capabilities?: NodeCapabilities) {
+		for await (const nodeUrl of this.getNodeUrls(capabilities)) {
+			return nodeUrl;
+		}
+
+		throw new Error('There are no nodes with a proper metadata');
+	}
+
+	/**
+	 * The addresses of the registered nodes which are staked, from the directory of the nodes.
+	 */
+	async getStakedNodeAddresses(): Promise<EthereumAddress[]> {
+		await this.getNodes();
+		return [...this.stakes]
+			.filter(([, stake]) => this.isStaked(stake))
+			.map(([address]) => address);
+	}
+
+	private isStaked(stake: bigint): boolean {
+		return (
+			this.stakeRequiredAmount > BigInt(0) && stake >= this.stakeRequiredAmount
 		);
+	}
+
+	/**
+	 * The registered nodes which have an HTTP endpoint in their metadata.
+	 *
+	 * The directory is read from the contract once, and then kept up to date from its events,
+	 * and read again periodically to recover from missed events.
+	 */
+	async getNodes(): Promise<LogStoreNode[]> {
+		if (this.directory === undefined) {
+			this.startDirectorySync();
+			this.directory = this.reconcileDirectory();
+			// A failed read is not reused
+			this.directory.catch(() => {
+				this.directory = undefined;
+			});
+		}
+		await this.directory;
+		return [...this.nodes.values()];
+	}
+
+	private startDirectorySync() {
+		if (this.directorySync !== undefined) {
+			return;
+		}
+		const primaryReadonlyContract = this.logStoreManagerContractsReadonly[0];
+		const onNodeUpdated = (
+			nodeAddress: string,
+			metadata: string,
+			_isNew: boolean,
+			lastSeen: BigNumber
+		) => {
+			const address = toEthereumAddress(nodeAddress);
+			// A node left out of the directory for its metadata keeps its stake
+			const stake = this.stakes.get(address) ?? BigInt(0);
+			this.stakes.set(address, stake);
+			this.updateNode(
+				address,
+				this.toNode(address, metadata, lastSeen, stake, this.isStaked(stake))
+			);
+		};
+		const onNodeRemoved = (nodeAddress: string) => {
+			const address = toEthereumAddress(nodeAddress);
+			this.stakes.delete(address);
+			this.updateNode(address, undefined);
+		};
+		const onStakeDelegateUpdated = (
+			_delegate: string,
+			nodeAddress: string,
+			_amount: BigNumber,
+			totalStake: BigNumber
+		) => {
+			const address = toEthereumAddress(nodeAddress);
+			const stake = totalStake.toBigInt();
+			if (this.stakes.has(address)) {
+				this.stakes.set(address, stake);
+			}
+			const node = this.nodes.get(address);
+			if (node !== undefined) {
+				this.nodes.set(address, {
+					...node,
+					stake,
+					staked: this.isStaked(stake),
+				});
+			}
+		};
+		primaryReadonlyContract.on('NodeUpdated', onNodeUpdated);
+		primaryReadonlyContract.on('NodeRemoved', onNodeRemoved);
+		primaryReadonlyContract.on('StakeDelegateUpdated', onStakeDelegateUpdated);
+		const reconciliation = setInterval(() => {
+			this.reconcileDirectory().catch((err) => {
+				this.logger.warn('failed to reconcile the node directory: %s', err);
+			});
+		}, NODES_RECONCILE_INTERVAL);
+		unrefTimer(reconciliation);
+
+		this.directorySync = () => {
+			clearInterval(reconciliation);
+			primaryReadonlyContract.off('NodeUpdated', onNodeUpdated);
+			primaryReadonlyContract.off('NodeRemoved', onNodeRemoved);
+			primaryReadonlyContract.off(
+				'StakeDelegateUpdated',
+				onStakeDelegateUpdated
+			);
+		};
+		this.destroySignal.onDestroy.listen(() => {
+			this.directorySync?.();
+		});
+	}
 
-		for (const nodeAddress of nodeAddresses) {
-			const node = await queryAllReadonlyContracts(
-				(contract: LogStoreNodeManagerContract) => {
+	/**
+	 * Reads the nodes from the contract, and replaces the directory with them.
+	 */
+	private async reconcileDirectory(): Promise<void> {
+		const [nodeAddresses, stakeRequiredAmount] = await Promise.all([
+			queryAllReadonlyContracts((contract: LogStoreNodeManagerContract) => {
+				return contract.nodeAddresses();
+			}, this.logStoreManagerContractsReadonly),
+			queryAllReadonlyContracts((contract: LogStoreNodeManagerContract) => {
+				return contract.stakeRequiredAmount();
+			}, this.logStoreManagerContractsReadonly),
+		]);
+		this.stakeRequiredAmount = stakeRequiredAmount.toBigInt();
+		const nodes = await Promise.all(
+			nodeAddresses.map((nodeAddress) =>
+				queryAllReadonlyContracts((contract: LogStoreNodeManagerContract) => {
 					return contract.nodes(nodeAddress);
-				},
-				this.logStoreManagerContractsReadonly
+				}, this.logStoreManagerContractsReadonly)
+			)
+		);
+
+		const snapshot = new Map<EthereumAddress, LogStoreNode>();
+		this.stakes.clear();
+		nodes.forEach((node, index) => {
+			const address = toEthereumAddress(nodeAddresses[index]);
+			const stake = node.stake.toBigInt();
+			this.stakes.set(address, stake);
+			const directoryNode = this.toNode(
+				address,
+				node.metadata,
+				node.lastSeen,
+				stake,
+				this.isStaked(stake)
 			);
-			if (node.metadata.includes('http')) {
-				try {
-					const metadata = JSON.parse(node.metadata) as NodeMetadata;
-					return metadata.http;
-				} catch (e) {
-					// ...
-				}
+			if (directoryNode !== undefined) {
+				snapshot.set(address, directoryNode);
+			}
+		});
+
+		// The first read only fills the directory, the later ones report the changes missed
+		const isInitial = this.directorySyncedAt === undefined;
+		if (isInitial) {
+			for (const [address, node] of snapshot) {
+				this.nodes.set(address, node);
+			}
+		} else {
+			for (const address of [...this.nodes.keys(), ...snapshot.keys()]) {
+				this.updateNode(address, snapshot.get(address));
 			}
 		}
+		this.directorySyncedAt = Date.now();
+	}
 
-		throw new Error('There are no nodes with a proper metadata');
+	/**
+	 * Sets or deletes a node of the directory, and emits `nodeJoined` or `nodeLeft` when it
+	 * enters or leaves the directory.
+	 */
+	private updateNode(address: EthereumAddress, node: LogStoreNode | undefined) {
+		const existing = this.nodes.get(address);
+		if (node !== undefined) {
+			this.nodes.set(address, node);
+			if (existing === undefined) {
+				this.logger.debug('node %s joined at %s', address, node.url);
+				this.eventEmitter.emit('nodeJoined', node);
+			}
+		} else if (existing !== undefined) {
+			this.nodes.delete(address);
+			this.logger.debug('node %s left', address);
+			this.eventEmitter.emit('nodeLeft', existing);
+		}
+	}
+
+	/**
+	 * A directory entry of a node, or undefined if its metadata is invalid or advertises
+	 * capabilities the client does not support.
+	 */
+	private toNode(
+		address: EthereumAddress,
+		rawMetadata: string,
+		lastSeen: BigNumber,
+		stake: bigint,
+		staked: boolean
+	): LogStoreNode | undefined {
+		let metadata: NodeMetadata;
+		try {
+			metadata = parseNodeMetadata(rawMetadata);
+		} catch (err) {
+			this.logger.warn('skipping node %s: invalid metadata: %s', address, err);
+			return undefined;
+		}
+		const unsupportedReason = getUnsupportedNodeReason(metadata);
+		if (unsupportedReason !== undefined) {
+			this.logger.warn('skipping node %s: %s', address, unsupportedReason);
+			return undefined;
+		}
+		return {
+			address,
+			url: metadata.http,
+			metadata,
+			stake,
+			// The contract records the time in seconds
+			lastSeen: lastSeen.toNumber() * 1000,
+			staked,
+		};
+	}
+
+	/**
+	 * Yields the HTTP endpoints of the nodes in the order of the `nodeSelection.strategy` config,
+	 * skipping the nodes which are not staked, as their results are not backed by a stake,
+	 * and the ones which do not advertise the capabilities in their metadata.
+	 * Nodes which failed repeatedly are demoted to the end until their cooldown is over.
+	 */
+	async *getNodeUrls(
+		capabilities: NodeCapabilities = {}
+	): AsyncGenerator<string> {
+		const { strategy, pinnedUrls, region, maxFailures, failureCooldown } =
+			this.clientConfig.nodeSelection;
+		const { queryType, queryFormat } = capabilities;
+		const nodes =
+			strategy === NodeSelectionStrategy.Pinned
+				? []
+				: (await this.getNodes()).filter(
+						({ metadata, staked }) =>
+							staked &&
+							(queryType === undefined ||
+								(metadata.queryTypes as string[]).includes(queryType)) &&
+							(queryFormat === undefined ||
+								metadata.queryFormats.includes(queryFormat))
+				  );
+		const urls = orderNodeUrls(nodes, strategy, {
+			health: this.health,
+			pinnedUrls,
+			region,
+			roundRobinIndex: this.roundRobinIndex++,
+		});
+
+		const [healthy, demoted] = partition(
+			urls,
+			(url) => !this.health.isDemoted(url, maxFailures, failureCooldown)
+		);
+		for (const url of [...healthy, ...demoted]) {
+			yield url;
+		}
+	}
+
+	/**
+	 * Records a response of a node, and how long it took in milliseconds.
+	 */
+	onNodeSuccess(url: string, latency?: number): void {
+		this.health.onSuccess(url, latency);
+	}
+
+	/**
+	 * Records a failure of a node, demoting it after `nodeSelection.maxFailures` failures in a row,
+	 * or until the `retryAfter` delay in milliseconds the node asked for is over.
+	 */
+	onNodeFailure(url: string, retryAfter?: number): void {
+		this.health.onFailure(url, retryAfter);
 	}
 }
@@ -0,0 +1,302 @@
+import type { BigNumber } from '@ethersproject/bignumber';
+import type {
+	ContractReceipt,
+	ContractTransaction,
+} from '@ethersproject/contracts';
+import type { LogStoreNodeManager as LogStoreNodeManagerContract } from '@logsn/contracts';
+import { abi as LogStoreNodeManagerAbi } from '@logsn/contracts/artifacts/src/NodeManager.sol/LogStoreNodeManager.json';
+import { prepareStakeForNodeManager } from '@logsn/shared';
+import {
+	Authentication,
+	AuthenticationInjectionToken,
+	ContractFactory,
+	LoggerFactory,
+} from '@logsn/streamr-client';
+import { EthereumAddress, Logger, toEthereumAddress } from '@streamr/utils';
+import { inject, Lifecycle, scoped } from 'tsyringe';
+
+import {
+	LogStoreClientConfigInjectionToken,
+	StrictLogStoreClientConfig,
+} from '../Config';
+import { withContractError } from '../ContractError';
+import { getStreamRegistryOverrides } from '../Ethereum';
+import {
+	createNodeMetadata,
+	NodeMetadataOptions,
+	serializeNodeMetadata,
+} from '../NodeMetadata';
+
+export interface NodeTransactionResult {
+	transactionHash: string;
+	blockNumber: number;
+}
+
+export interface NodeUpdatedResult extends NodeTransactionResult {
+	/** Whether the node was registered by the transaction */
+	isNew: boolean;
+	/** When the node was updated, in milliseconds since the epoch */
+	lastSeen: number;
+}
+
+export interface StakeDelegateResult extends NodeTransactionResult {
+	node: EthereumAddress;
+	/** The total stake of the node after the transaction */
+	nodeStake: bigint;
+	/** The amount the client has delegated to the node after the transaction */
+	delegated: bigint;
+}
+
+export type NodeJoinResult = NodeUpdatedResult &
+	Pick<StakeDelegateResult, 'nodeStake' | 'delegated'>;
+
+// The arguments of the events of LogStoreNodeManager read by the client, as decoded by ethers.
+// The contracts package exports the types of the contracts only, not the ones of their events.
+interface NodeUpdatedArgs {
+	nodeAddress: string;
+	metadata: string;
+	isNew: boolean;
+	lastSeen: BigNumber;
+}
+
+interface StakeDelegateUpdatedArgs {
+	delegate: string;
+	node: string;
+	amount: BigNumber;
+	totalStake: BigNumber;
+	totalDelegated: BigNumber;
+	delegated: boolean;
+}
+
+const findEventArgs = <TArgs>(
+	receipt: ContractReceipt,
+	eventName: string
+): TArgs => {
+	const event = receipt.events?.find((e) => e.event === eventName);
+	if (event?.args === undefined) {
+		throw new Error(`${eventName} event missing from the transaction receipt`);
+	}
+	return event.args as unknown as TArgs;
+};
+
+const toResult = (receipt: ContractReceipt): NodeTransactionResult => ({
+	transactionHash: receipt.transactionHash,
+	blockNumber: receipt.blockNumber,
+});
+
+const toNodeUpdatedResult = (receipt: ContractReceipt): NodeUpdatedResult => {
+	const args = findEventArgs<NodeUpdatedArgs>(receipt, 'NodeUpdated');
+	return {
+		...toResult(receipt),
+		isNew: args.isNew,
+		// The contract records the time in seconds
+		lastSeen: args.lastSeen.toNumber() * 1000,
+	};
+};
+
+const toStakeDelegateResult = (
+	receipt: ContractReceipt
+): StakeDelegateResult => {
+	const args = findEventArgs<StakeDelegateUpdatedArgs>(
+		receipt,
+		'StakeDelegateUpdated'
+	);
+	return {
+		...toResult(receipt),
+		node: toEthereumAddress(args.node),
+		nodeStake: args.totalStake.toBigInt(),
+		delegated: args.totalDelegated.toBigInt(),
+	};
+};
+
+/**
+ * Registers the client as a node of the LogStore network, and manages the stake of the node
+ * and the stake the client delegates to other nodes.
+ */
+@scoped(Lifecycle.ContainerScoped)
+export class NodeRegistry {
+	private contractFactory: ContractFactory;
+	private authentication: Authentication;
+	private clientConfig: Pick<StrictLogStoreClientConfig, 'contracts'>;
+	private nodeManagerContract?: LogStoreNodeManagerContract;
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(ContractFactory)
+		contractFactory: ContractFactory,
+		@inject(AuthenticationInjectionToken)
+		authentication: Authentication,
+		@inject(LoggerFactory)
+		loggerFactory: LoggerFactory,
+		@inject(LogStoreClientConfigInjectionToken)
+		clientConfig: Pick<StrictLogStoreClientConfig, 'contracts'>
+	) {
+		this.contractFactory = contractFactory;
+		this.authentication = authentication;
+		this.clientConfig = clientConfig;
+		this.logger = loggerFactory.createLogger(module);
+	}
+
+	private async connectToContract(): Promise<LogStoreNodeManagerContract> {
+		if (!this.nodeManagerContract) {
+			const chainSigner =
+				await this.authentication.getStreamRegistryChainSigner();
+			this.nodeManagerContract =
+				this.contractFactory.createWriteContract<LogStoreNodeManagerContract>(
+					toEthereumAddress(
+						this.clientConfig.contracts.logStoreNodeManagerChainAddress
+					),
+					LogStoreNodeManagerAbi,
+					chainSigner,
+					'logStoreNodeManager'
+				);
+		}
+		return this.nodeManagerContract;
+	}
+
+	/**
+	 * Sends a transaction to the node manager contract and waits for it to be mined.
+	 */
+	private async sendTransaction(
+		operation: string,
+		send: (
+			contract: LogStoreNodeManagerContract
+		) => Promise<ContractTransaction>
+	): Promise<ContractReceipt> {
+		const contract = await this.connectToContract();
+		this.logger.debug('sending %s to the node manager', operation);
+		return withContractError(operation, async () => {
+			const tx = await send(contract);
+			return tx.wait();
+		});
+	}
+
+	/**
+	 * Approves the node manager contract to transfer the amount of the client's tokens,
+	 * if its allowance is not enough.
+	 */
+	private async prepareStake(amount: bigint, usd: boolean): Promise<bigint> {
+		const chainSigner =
+			await this.authentication.getStreamRegistryChainSigner();
+		return prepareStakeForNodeManager(
+			chainSigner,
+			usd ? Number(amount) : amount,
+			usd
+		);
+	}
+
+	/**
+	 * Registers the client as a node, and stakes the amount on it.
+	 */
+	async join(
+		amount: bigint,
+		metadata: NodeMetadataOptions,
+		options = { usd: false }
+	): Promise<NodeJoinResult> {
+		const serializedMetadata = serializeNodeMetadata(
+			createNodeMetadata(metadata)
+		);
+		const stakeAmount = await this.prepareStake(amount, options.usd);
+		const ethersOverrides = getStreamRegistryOverrides(this.clientConfig);
+		const receipt = await this.sendTransaction('join', (contract) =>
+			contract.join(stakeAmount, serializedMetadata, ethersOverrides)
+		);
+		const { nodeStake, delegated } = toStakeDelegateResult(receipt);
+		return { ...toNodeUpdatedResult(receipt), nodeStake, delegated };
+	}
+
+	/**
+	 * Withdraws the stake of the node of the client, and unregisters it.
+	 */
+	async leave(): Promise<NodeTransactionResult> {
+		const ethersOverrides = getStreamRegistryOverrides(this.clientConfig);
+		const receipt = await this.sendTransaction('leave', (contract) =>
+			contract.leave(ethersOverrides)
+		);
+		return toResult(receipt);
+	}
+
+	/**
+	 * Registers the client as a node, or updates the metadata of its node.
+	 */
+	async upsertNode(metadata: NodeMetadataOptions): Promise<NodeUpdatedResult> {
+		const serializedMetadata = serializeNodeMetadata(
+			createNodeMetadata(metadata)
+		);
+		const ethersOverrides = getStreamRegistryOverrides(this.clientConfig);
+		const receipt = await this.sendTransaction('upsertNode', (contract) =>
+			contract.upsertNode(serializedMetadata, ethersOverrides)
+		);
+		return toNodeUpdatedResult(receipt);
+	}
+
+	/**
+	 * Stakes the amount in the node manager, to be delegated to nodes.
+	 */
+	async stake(
+		amount: bigint,
+		options = { usd: false }
+	): Promise<NodeTransactionResult> {
+		const stakeAmount = await this.prepareStake(amount, options.usd);
+		const ethersOverrides = getStreamRegistryOverrides(this.clientConfig);
+		const receipt = await this.sendTransaction('stake', (contract) =>
+			contract.stake(stakeAmount, ethersOverrides)
+		);
+		return toResult(receipt);
+	}
+
+	/**
+	 * Delegates the amount of the stake of the client to a node.
+	 */
+	async delegate(
+		amount: bigint,
+		nodeAddress: EthereumAddress
+	): Promise<StakeDelegateResult> {
+		const ethersOverrides = getStreamRegistryOverrides(this.clientConfig);
+		const receipt = await this.sendTransaction('delegate', (contract) =>
+			contract.delegate(amount, nodeAddress, ethersOverrides)
+		);
+		return toStakeDelegateResult(receipt);
+	}
+
+	/**
+	 * Takes back the amount of the stake the client delegated to a node.
+	 */
+	async undelegate(
+		amount: bigint,
+		nodeAddress: EthereumAddress
+	): Promise<StakeDelegateResult> {
+		const ethersOverrides = getStreamRegistryOverrides(this.clientConfig);
+		const receipt = await this.sendTransaction('undelegate', (contract) =>
+			contract.undelegate(amount, nodeAddress, ethersOverrides)
+		);
+		return toStakeDelegateResult(receipt);
+	}
+
+	/**
+	 * Withdraws the amount of the stake of the client which is not delegated.
+	 */
+	async withdraw(amount: bigint): Promise<NodeTransactionResult> {
+		const ethersOverrides = getStreamRegistryOverrides(this.clientConfig);
+		const receipt = await this.sendTransaction('withdraw', (contract) =>
+			contract.withdraw(amount, ethersOverrides)
+		);
+		return toResult(receipt);
+	}
+
+	/**
+	 * Takes back the amount the client delegated to a node, and withdraws it.
+	 */
+	async undelegateWithdraw(
+		amount: bigint,
+		nodeAddress: EthereumAddress
+	): Promise<StakeDelegateResult> {
+		const ethersOverrides = getStreamRegistryOverrides(this.clientConfig);
+		const receipt = await this.sendTransaction(
+			'undelegateWithdraw',
+			(contract) =>
+				contract.undelegateWithdraw(amount, nodeAddress, ethersOverrides)
+		);
+		return toStakeDelegateResult(receipt);
+	}
+}
@@ -0,0 +1,141 @@
+import { EthereumAddress } from '@streamr/utils';
+import { partition, shuffle, sortBy } from 'lodash';
+
+import { NodeMetadata } from '../NodeMetadata';
+
+/**
+ * The order in which the nodes are tried by a query.
+ */
+export enum NodeSelectionStrategy {
+	/** A random order for each query */
+	Random = 'random',
+	/** The nodes which responded the fastest to the previous queries first */
+	LowestLatency = 'lowestLatency',
+	/** Each query starts from the node following the one the previous query started from */
+	RoundRobin = 'roundRobin',
+	/** Only the nodes listed in the `nodeSelection.pinnedUrls` config, in their order */
+	Pinned = 'pinned',
+	/** The nodes of the `nodeSelection.region` config first, in a random order */
+	Region = 'region',
+}
+
+export interface LogStoreNode {
+	address: EthereumAddress;
+	url: string;
+	metadata: NodeMetadata;
+	/** The total amount staked on the node, including the delegated stakes */
+	stake: bigint;
+	/** When the node last updated its registration, in milliseconds since the epoch */
+	lastSeen: number;
+	/** Whether the stake of the node is at least the amount required to participate */
+	staked: boolean;
+}
+
+// Weight of the latest sample in the moving average of the latency of a node
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Tracks the failures and the latency of the nodes as observed by the queries.
+ */
+export class NodeHealth {
+	private readonly failures = new Map<
+		string,
+		{ count: number; timestamp: number; retryAt?: number }
+	>();
+	private readonly latencies = new Map<string, number>();
+
+	onSuccess(url: string, latency?: number): void {
+		this.failures.delete(url);
+		if (latency !== undefined) {
+			const average = this.latencies.get(url);
+			this.latencies.set(
+				url,
+				average === undefined
+					? latency
+					: average + LATENCY_SMOOTHING * (latency - average)
+			);
+		}
+	}
+
+	/**
+	 * Records a failure of the node. A `retryAfter` delay in milliseconds asked for by the node
+	 * demotes it until the delay is over.
+	 */
+	onFailure(url: string, retryAfter?: number): void {
+		const count = (this.failures.get(url)?.count ?? 0) + 1;
+		const timestamp = Date.now();
+		this.failures.set(url, {
+			count,
+			timestamp,
+			retryAt: retryAfter !== undefined ? timestamp + retryAfter : undefined,
+		});
+	}
+
+	/**
+	 * Whether the node failed at least `maxFailures` times in a row, the last time
+	 * within the `cooldown` period, or asked not to be queried for now.
+	 */
+	isDemoted(url: string, maxFailures: number, cooldown: number): boolean {
+		const failure = this.failures.get(url);
+		if (failure === undefined) {
+			return false;
+		}
+		if (failure.retryAt !== undefined && Date.now() < failure.retryAt) {
+			return true;
+		}
+		return (
+			failure.count >= maxFailures && Date.now() - failure.timestamp < cooldown
+		);
+	}
+
+	getLatency(url: string): number | undefined {
+		return this.latencies.get(url);
+	}
+}
+
+/**
+ * Orders the node urls by the strategy. Nodes with no latency measured yet come first
+ * with the lowest latency strategy, so that they get measured.
+ */
+export const orderNodeUrls = (
+	nodes: LogStoreNode[],
+	strategy: NodeSelectionStrategy,
+	{
+		health,
+		pinnedUrls,
+		region,
+		roundRobinIndex,
+	}: {
+		health: NodeHealth;
+		pinnedUrls: string[];
+		region?: string;
+		roundRobinIndex: number;
+	}
+): string[] => {
+	switch (strategy) {
+		case NodeSelectionStrategy.LowestLatency:
+			return sortBy(
+				shuffle(nodes.map(({ url }) => url)),
+				(url) => health.getLatency(url) ?? 0
+			);
+		case NodeSelectionStrategy.RoundRobin: {
+			const urls = sortBy(nodes, ({ address }) => address).map(
+				({ url }) => url
+			);
+			const start = urls.length > 0 ? roundRobinIndex % urls.length : 0;
+			return [...urls.slice(start), ...urls.slice(0, start)];
+		}
+		case NodeSelectionStrategy.Pinned:
+			return [...pinnedUrls];
+		case NodeSelectionStrategy.Region: {
+			const [inRegion, others] = partition(
+				shuffle(nodes),
+				({ metadata }) => region !== undefined && metadata.region === region
+			);
+			return [...inRegion, ...others].map(({ url }) => url);
+		}
+		case NodeSelectionStrategy.Random:
+		default:
+			return shuffle(nodes.map(({ url }) => url));
+	}
+};
@@ -0,0 +1,144 @@
+import type { LogStoreReportManager as LogStoreReportManagerContract } from '@logsn/contracts';
+import { abi as LogStoreReportManagerAbi } from '@logsn/contracts/artifacts/src/ReportManager.sol/LogStoreReportManager.json';
+import { ProofOfReport, SystemReport } from '@logsn/protocol';
+import { ContractFactory, LoggerFactory } from '@logsn/streamr-client';
+import { EthereumAddress, Logger, toEthereumAddress } from '@streamr/utils';
+import { ethers } from 'ethers';
+import { inject, Lifecycle, scoped } from 'tsyringe';
+
+import {
+	LogStoreClientConfigInjectionToken,
+	StrictLogStoreClientConfig,
+} from '../Config';
+import { getStreamRegistryChainProviders } from '../Ethereum';
+
+/**
+ * A report accepted by the report manager contract, with the proofs of the nodes which signed it.
+ */
+export interface LogStoreReport {
+	report: SystemReport;
+	/** The node which submitted the report */
+	reporter: EthereumAddress;
+	/** Whether the node manager has applied the report */
+	processed: boolean;
+	/** The proofs of the nodes, each verified to sign the hash of the report */
+	proofs: ProofOfReport[];
+}
+
+/**
+ * The hash of a report signed by a node does not match the report as read from the contract.
+ */
+export class ReportVerificationError extends Error {
+	public readonly reportId: string;
+	public readonly signer: EthereumAddress;
+
+	constructor(reportId: string, signer: EthereumAddress) {
+		super(
+			`proof of report ${reportId} is not signed by ${signer} for the hash of the report`
+		);
+		this.reportId = reportId;
+		this.signer = signer;
+	}
+}
+
+/**
+ * Reads the reports accepted by the report manager contract, which bill the streams and the
+ * consumers for the data stored and queried, and reward the nodes.
+ */
+@scoped(Lifecycle.ContainerScoped)
+export class ReportRegistry {
+	private contractFactory: ContractFactory;
+	private clientConfig: Pick<StrictLogStoreClientConfig, 'contracts'>;
+	private readonly reportManagerContract: LogStoreReportManagerContract;
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(ContractFactory)
+		contractFactory: ContractFactory,
+		@inject(LoggerFactory)
+		loggerFactory: LoggerFactory,
+		@inject(LogStoreClientConfigInjectionToken)
+		clientConfig: Pick<StrictLogStoreClientConfig, 'contracts'>
+	) {
+		this.contractFactory = contractFactory;
+		this.clientConfig = clientConfig;
+		this.logger = loggerFactory.createLogger(module);
+		this.reportManagerContract = this.contractFactory.createReadContract(
+			toEthereumAddress(
+				this.clientConfig.contracts.logStoreReportManagerChainAddress
+			),
+			LogStoreReportManagerAbi,
+			getStreamRegistryChainProviders(clientConfig)[0],
+			'logStoreReportManager'
+		) as LogStoreReportManagerContract;
+	}
+
+	/**
+	 * The report with the id, or undefined if no such report was accepted.
+	 */
+	async getReport(id: string): Promise<LogStoreReport | undefined> {
+		return this.toLogStoreReport(
+			await this.reportManagerContract.getReport(id)
+		);
+	}
+
+	/**
+	 * The latest accepted report, or undefined if no report was accepted yet.
+	 */
+	async getLastReport(): Promise<LogStoreReport | undefined> {
+		return this.toLogStoreReport(
+			await this.reportManagerContract.getLastReport()
+		);
+	}
+
+	/**
+	 * The nodes which can submit reports, ordered by their reputation.
+	 */
+	async getReporters(): Promise<EthereumAddress[]> {
+		const reporters = await this.reportManagerContract.getReporters();
+		return reporters.map((reporter) => toEthereumAddress(reporter));
+	}
+
+	private async toLogStoreReport(
+		struct: Awaited<ReturnType<LogStoreReportManagerContract['getReport']>>
+	): Promise<LogStoreReport | undefined> {
+		// The contract returns an empty struct for an unknown id
+		if (struct.id === '') {
+			return undefined;
+		}
+		const report = SystemReport.fromContract(struct);
+		const proofs = await this.reportManagerContract.getProofOfReport(struct.id);
+		this.logger.debug(
+			'verifying %d proofs of report %s',
+			proofs.length,
+			struct.id
+		);
+		const hash = report.toHash();
+
+		return {
+			report,
+			reporter: toEthereumAddress(struct._reporter),
+			processed: struct._processed,
+			proofs: proofs.map(({ signer, signature, timestamp }) => {
+				const address = toEthereumAddress(signer);
+				const proofTimestamp = timestamp.toNumber();
+				// The nodes sign the hash of the report together with the time of the proof
+				const toth = report.toHash(proofTimestamp);
+				const recovered = ethers.utils.verifyMessage(
+					ethers.utils.arrayify(toth),
+					signature
+				);
+				if (toEthereumAddress(recovered) !== address) {
+					throw new ReportVerificationError(struct.id, address);
+				}
+				return new ProofOfReport({
+					address,
+					hash,
+					toth,
+					timestamp: proofTimestamp,
+					signature,
+				});
+			}),
+		};
+	}
+}
@@ -0,0 +1,502 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import type { Event } from '@ethersproject/contracts';
+import type {
+	LogStoreManager as LogStoreManagerContract,
+	LogStoreQueryManager as LogStoreQueryManagerContract,
+} from '@logsn/contracts';
+import { abi as LogStoreQueryManagerAbi } from '@logsn/contracts/artifacts/src/QueryManager.sol/LogStoreQueryManager.json';
+import { abi as LogStoreManagerAbi } from '@logsn/contracts/artifacts/src/StoreManager.sol/LogStoreManager.json';
+import {
+	Authentication,
+	AuthenticationInjectionToken,
+	collect,
+	ContractFactory,
+	LoggerFactory,
+	StreamIDBuilder,
+} from '@logsn/streamr-client';
+import { EthereumAddress, Logger, toEthereumAddress } from '@streamr/utils';
+import { inject, Lifecycle, scoped } from 'tsyringe';
+
+import {
+	LogStoreClientConfigInjectionToken,
+	StrictLogStoreClientConfig,
+} from '../Config';
+import { getStreamRegistryChainProviders } from '../Ethereum';
+import {
+	initEventGateway,
+	LogStoreClientEventEmitter,
+	LogStoreClientEvents,
+} from '../events';
+import { SynchronizedGraphQLClient } from '../utils/SynchronizedGraphQLClient';
+
+interface UsageEvent {
+	readonly blockNumber: number;
+	readonly transactionHash: string;
+}
+
+/**
+ * A store was billed for the data the nodes stored for its stream.
+ */
+export interface DataStoredEvent extends UsageEvent {
+	readonly store: string;
+	readonly fees: bigint;
+	readonly bytesStored: bigint;
+}
+
+/**
+ * A consumer was billed for the data of its queries.
+ */
+export interface DataQueriedEvent extends UsageEvent {
+	readonly consumer: EthereumAddress;
+	readonly fees: bigint;
+	readonly bytesProcessed: bigint;
+}
+
+/**
+ * A store was billed more than its stake. Its whole stake was captured, and the overflow
+ * was not paid.
+ */
+export interface StoreCaptureOverflowEvent extends UsageEvent {
+	readonly manager: 'store';
+	readonly store: string;
+	readonly stake: bigint;
+	readonly capture: bigint;
+	readonly overflow: bigint;
+}
+
+/**
+ * A consumer was billed more than its query stake. Its whole stake was captured, and the
+ * overflow was not paid.
+ */
+export interface QueryCaptureOverflowEvent extends UsageEvent {
+	readonly manager: 'query';
+	readonly consumer: EthereumAddress;
+	readonly stake: bigint;
+	readonly capture: bigint;
+	readonly overflow: bigint;
+}
+
+export type CaptureOverflowEvent =
+	| StoreCaptureOverflowEvent
+	| QueryCaptureOverflowEvent;
+
+/**
+ * A manager contract was billed more than the total stake it holds.
+ */
+export interface SupplyOverflowEvent extends UsageEvent {
+	readonly manager: 'store' | 'query';
+	readonly supply: bigint;
+	readonly capture: bigint;
+	readonly overflow: bigint;
+}
+
+/**
+ * Selects the usage events of a stream or of a consumer. An event matches if it is about
+ * any of the given stream or consumer, and every event matches an empty filter.
+ */
+export interface UsageFilter {
+	streamId?: string;
+	consumer?: EthereumAddress;
+}
+
+/**
+ * Wraps a listener of a usage event so that it is only called with the events matching
+ * the filter, e.g. `client.on('captureOverflow', filterUsageEvents({ streamId }, alert))`.
+ */
+export const filterUsageEvents = <
+	T extends
+		| DataStoredEvent
+		| DataQueriedEvent
+		| CaptureOverflowEvent
+		| SupplyOverflowEvent
+>(
+	filter: UsageFilter,
+	listener: (payload: T) => void
+): ((payload: T) => void) => {
+	return (payload: T) => {
+		if (
+			(filter.streamId === undefined && filter.consumer === undefined) ||
+			('store' in payload && payload.store === filter.streamId) ||
+			('consumer' in payload && payload.consumer === filter.consumer)
+		) {
+			listener(payload);
+		}
+	};
+};
+
+export interface UsageRange {
+	/** The start of the range, in milliseconds since the epoch */
+	from?: number;
+	/** The end of the range, in milliseconds since the epoch */
+	to?: number;
+}
+
+/** A usage event as recorded by the subgraph, with the time of its block */
+export type UsageRecord<T extends UsageEvent> = T & {
+	/** In milliseconds since the epoch */
+	readonly timestamp: number;
+};
+
+export interface StoreUsage {
+	dataStored: UsageRecord<DataStoredEvent>[];
+	captureOverflows: UsageRecord<StoreCaptureOverflowEvent>[];
+}
+
+export interface QueryUsage {
+	dataQueried: UsageRecord<DataQueriedEvent>[];
+	captureOverflows: UsageRecord<QueryCaptureOverflowEvent>[];
+}
+
+interface SubgraphUsageEvent {
+	id: string;
+	blockNumber: string;
+	blockTimestamp: string;
+	transactionHash: string;
+}
+
+const toUsageEvent = (extra: Event): UsageEvent => ({
+	blockNumber: extra.blockNumber,
+	transactionHash: extra.transactionHash,
+});
+
+const toUsageRecord = (event: SubgraphUsageEvent) => ({
+	blockNumber: Number(event.blockNumber),
+	transactionHash: event.transactionHash,
+	// The subgraph records the time in seconds
+	timestamp: Number(event.blockTimestamp) * 1000,
+});
+
+/**
+ * Emits the events of the manager contracts billing the stores and the consumers for the
+ * data stored and queried, and reads their history from the subgraph.
+ */
+@scoped(Lifecycle.ContainerScoped)
+export class UsageRegistry {
+	private contractFactory: ContractFactory;
+	private streamIdBuilder: StreamIDBuilder;
+	private graphQLClient: SynchronizedGraphQLClient;
+	private authentication: Authentication;
+	private clientConfig: Pick<StrictLogStoreClientConfig, 'contracts'>;
+	private readonly logStoreManagerContract: LogStoreManagerContract;
+	private readonly logStoreQueryManagerContract: LogStoreQueryManagerContract;
+	private readonly logger: Logger;
+
+	constructor(
+		@inject(ContractFactory)
+		contractFactory: ContractFactory,
+		@inject(StreamIDBuilder)
+		streamIdBuilder: StreamIDBuilder,
+		@inject(SynchronizedGraphQLClient)
+		graphQLClient: SynchronizedGraphQLClient,
+		@inject(LogStoreClientEventEmitter)
+		eventEmitter: LogStoreClientEventEmitter,
+		@inject(AuthenticationInjectionToken)
+		authentication: Authentication,
+		@inject(LoggerFactory)
+		loggerFactory: LoggerFactory,
+		@inject(LogStoreClientConfigInjectionToken)
+		clientConfig: Pick<StrictLogStoreClientConfig, 'contracts'>
+	) {
+		this.contractFactory = contractFactory;
+		this.streamIdBuilder = streamIdBuilder;
+		this.graphQLClient = graphQLClient;
+		this.authentication = authentication;
+		this.clientConfig = clientConfig;
+		this.logger = loggerFactory.createLogger(module);
+		this.logStoreManagerContract = this.contractFactory.createReadContract(
+			toEthereumAddress(
+				this.clientConfig.contracts.logStoreStoreManagerChainAddress
+			),
+			LogStoreManagerAbi,
+			getStreamRegistryChainProviders(clientConfig)[0],
+			'logStoreManager'
+		) as LogStoreManagerContract;
+		this.logStoreQueryManagerContract = this.contractFactory.createReadContract(
+			toEthereumAddress(
+				this.clientConfig.contracts.logStoreQueryManagerChainAddress
+			),
+			LogStoreQueryManagerAbi,
+			getStreamRegistryChainProviders(clientConfig)[0],
+			'logStoreQueryManager'
+		) as LogStoreQueryManagerContract;
+
+		this.initUsageEventListener(
+			'dataStored',
+			[
+				{
+					contract: this.logStoreManagerContract,
+					contractEvent: 'DataStored',
+					toPayload: (
+						store: string,
+						fees: BigNumber,
+						bytesStored: BigNumber,
+						extra: Event
+					): DataStoredEvent => ({
+						store,
+						fees: fees.toBigInt(),
+						bytesStored: bytesStored.toBigInt(),
+						...toUsageEvent(extra),
+					}),
+				},
+			],
+			eventEmitter
+		);
+		this.initUsageEventListener(
+			'dataQueried',
+			[
+				{
+					contract: this.logStoreQueryManagerContract,
+					contractEvent: 'DataQueried',
+					toPayload: (
+						consumer: string,
+						fees: BigNumber,
+						bytesProcessed: BigNumber,
+						extra: Event
+					): DataQueriedEvent => ({
+						consumer: toEthereumAddress(consumer),
+						fees: fees.toBigInt(),
+						bytesProcessed: bytesProcessed.toBigInt(),
+						...toUsageEvent(extra),
+					}),
+				},
+			],
+			eventEmitter
+		);
+		this.initUsageEventListener(
+			'captureOverflow',
+			[
+				{
+					contract: this.logStoreManagerContract,
+					contractEvent: 'CaptureOverflow',
+					toPayload: (
+						store: string,
+						stake: BigNumber,
+						capture: BigNumber,
+						overflow: BigNumber,
+						extra: Event
+					): StoreCaptureOverflowEvent => ({
+						manager: 'store',
+						store,
+						stake: stake.toBigInt(),
+						capture: capture.toBigInt(),
+						overflow: overflow.toBigInt(),
+						...toUsageEvent(extra),
+					}),
+				},
+				{
+					contract: this.logStoreQueryManagerContract,
+					contractEvent: 'CaptureOverflow',
+					toPayload: (
+						consumer: string,
+						stake: BigNumber,
+						capture: BigNumber,
+						overflow: BigNumber,
+						extra: Event
+					): QueryCaptureOverflowEvent => ({
+						manager: 'query',
+						consumer: toEthereumAddress(consumer),
+						stake: stake.toBigInt(),
+						capture: capture.toBigInt(),
+						overflow: overflow.toBigInt(),
+						...toUsageEvent(extra),
+					}),
+				},
+			],
+			eventEmitter
+		);
+		this.initUsageEventListener(
+			'supplyOverflow',
+			(['store', 'query'] as const).map((manager) => ({
+				contract:
+					manager === 'store'
+						? this.logStoreManagerContract
+						: this.logStoreQueryManagerContract,
+				contractEvent: 'SupplyOverflow',
+				toPayload: (
+					supply: BigNumber,
+					capture: BigNumber,
+					overflow: BigNumber,
+					extra: Event
+				): SupplyOverflowEvent => ({
+					manager,
+					supply: supply.toBigInt(),
+					capture: capture.toBigInt(),
+					overflow: overflow.toBigInt(),
+					...toUsageEvent(extra),
+				}),
+			})),
+			eventEmitter
+		);
+	}
+
+	/**
+	 * Listens to the contract events only while the client has listeners for the client event.
+	 */
+	private initUsageEventListener<
+		E extends
+			| 'dataStored'
+			| 'dataQueried'
+			| 'captureOverflow'
+			| 'supplyOverflow'
+	>(
+		clientEvent: E,
+		sources: {
+			contract: LogStoreManagerContract | LogStoreQueryManagerContract;
+			contractEvent: string;
+			toPayload: (...args: any[]) => Parameters<LogStoreClientEvents[E]>[0];
+		}[],
+		eventEmitter: LogStoreClientEventEmitter
+	) {
+		initEventGateway(
+			clientEvent,
+			(emit) => {
+				return sources.map(({ contract, contractEvent, toPayload }) => {
+					const listener = (...args: any[]) => {
+						this.logger.debug('Emitting event %s', contractEvent);
+						emit(toPayload(...args));
+					};
+					contract.on(contractEvent, listener);
+					return listener;
+				});
+			},
+			(listeners: ((...args: any[]) => void)[]) => {
+				sources.forEach(({ contract, contractEvent }, i) => {
+					contract.off(contractEvent, listeners[i]);
+				});
+			},
+			eventEmitter
+		);
+	}
+
+	/**
+	 * The history of the data stored for a stream, and of the captures which exceeded its stake.
+	 */
+	async getStoreUsage(
+		streamIdOrPath: string,
+		range: UsageRange = {}
+	): Promise<StoreUsage> {
+		const streamId = await this.streamIdBuilder.toStreamID(streamIdOrPath);
+		this.logger.debug('getting the usage of stream %s', streamId);
+		const where = `store: ${JSON.stringify(streamId)}`;
+		const [dataStored, captureOverflows] = await Promise.all([
+			this.fetchUsage<
+				SubgraphUsageEvent & {
+					store: string;
+					fees: string;
+					bytesStored: string;
+				}
+			>('dataStoreds', where, range, 'store fees bytesStored'),
+			this.fetchUsage<
+				SubgraphUsageEvent & {
+					store: string;
+					stake: string;
+					capture: string;
+					overflow: string;
+				}
+			>('storeCaptureOverflows', where, range, 'store stake capture overflow'),
+		]);
+		return {
+			dataStored: dataStored.map((event) => ({
+				store: event.store,
+				fees: BigInt(event.fees),
+				bytesStored: BigInt(event.bytesStored),
+				...toUsageRecord(event),
+			})),
+			captureOverflows: captureOverflows.map((event) => ({
+				manager: 'store',
+				store: event.store,
+				stake: BigInt(event.stake),
+				capture: BigInt(event.capture),
+				overflow: BigInt(event.overflow),
+				...toUsageRecord(event),
+			})),
+		};
+	}
+
+	/**
+	 * The history of the queries of a consumer, by default the client, and of the captures
+	 * which exceeded its query stake.
+	 */
+	async getQueryUsage(
+		consumer?: EthereumAddress,
+		range: UsageRange = {}
+	): Promise<QueryUsage> {
+		const address = consumer ?? (await this.authentication.getAddress());
+		this.logger.debug('getting the query usage of %s', address);
+		// The subgraph stores the addresses as lowercase bytes
+		const where = `consumer: "${address.toLowerCase()}"`;
+		const [dataQueried, captureOverflows] = await Promise.all([
+			this.fetchUsage<
+				SubgraphUsageEvent & {
+					consumer: string;
+					fees: string;
+					bytesProcessed: string;
+				}
+			>('dataQuerieds', where, range, 'consumer fees bytesProcessed'),
+			this.fetchUsage<
+				SubgraphUsageEvent & {
+					consumer: string;
+					stake: string;
+					capture: string;
+					overflow: string;
+				}
+			>(
+				'queryCaptureOverflows',
+				where,
+				range,
+				'consumer stake capture overflow'
+			),
+		]);
+		return {
+			dataQueried: dataQueried.map((event) => ({
+				consumer: toEthereumAddress(event.consumer),
+				fees: BigInt(event.fees),
+				bytesProcessed: BigInt(event.bytesProcessed),
+				...toUsageRecord(event),
+			})),
+			captureOverflows: captureOverflows.map((event) => ({
+				manager: 'query',
+				consumer: toEthereumAddress(event.consumer),
+				stake: BigInt(event.stake),
+				capture: BigInt(event.capture),
+				overflow: BigInt(event.overflow),
+				...toUsageRecord(event),
+			})),
+		};
+	}
+
+	private fetchUsage<T extends SubgraphUsageEvent>(
+		entities: string,
+		where: string,
+		range: UsageRange,
+		fields: string
+	): Promise<T[]> {
+		const conditions = [where];
+		// The subgraph records the time in seconds, as a BigInt which is filtered by a string
+		if (range.from !== undefined) {
+			conditions.push(`blockTimestamp_gte: "${Math.floor(range.from / 1000)}"`);
+		}
+		if (range.to !== undefined) {
+			conditions.push(`blockTimestamp_lte: "${Math.floor(range.to / 1000)}"`);
+		}
+		return collect(
+			this.graphQLClient.fetchPaginatedResults<T>(
+				(lastId: string, pageSize: number) => {
+					const query = `
+					{
+						${entities}(first: ${pageSize}, orderBy: id where: {${conditions.join(
+						', '
+					)}, id_gt: "${lastId}"}) {
+							id
+							${fields}
+							blockNumber
+							blockTimestamp
+							transactionHash
+						}
+					}`;
+					return { query };
+				}
+			)
+		);
+	}
+}
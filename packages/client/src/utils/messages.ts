@@ -0,0 +1,19 @@
+import { Message } from '@logsn/streamr-client';
+import { StreamMessage } from '@streamr/protocol';
+
+/**
+ * The StreamMessage a Message was converted from.
+ *
+ * The client reads it from the `streamMessage` field which the Messages of a MessageStream carry,
+ * although the field is internal to StreamrClient and not part of the public type of the Message.
+ * Throws if a StreamrClient version no longer sets the field.
+ */
+export const toStreamMessage = (message: Message): StreamMessage => {
+	const { streamMessage } = message as Message & {
+		streamMessage?: StreamMessage;
+	};
+	if (streamMessage === undefined) {
+		throw new Error('The Message does not carry its StreamMessage');
+	}
+	return streamMessage;
+};
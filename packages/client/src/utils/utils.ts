@@ -124,3 +124,11 @@ export class MaxSizedSet<T> {
 export function generateClientId(): string {
 	return counterId(process.pid ? `${process.pid}` : randomString(4), '/');
 }
+
+/**
+ * Lets the process exit while the timer is pending, for the timers of background work.
+ * The timers of browsers do not keep a page alive, so they have nothing to unref.
+ */
+export function unrefTimer(timer: ReturnType<typeof setTimeout>): void {
+	(timer as { unref?: () => void }).unref?.();
+}
@@ -1,4 +1,11 @@
 import { LoggerFactory, Stream, StreamMetadata } from '@logsn/streamr-client';
+import {
+	MessageID,
+	MessageRef,
+	StreamMessage,
+	toStreamID,
+} from '@streamr/protocol';
+import { toEthereumAddress } from '@streamr/utils';
 import crypto from 'crypto';
 
 import { LogStoreClient } from '../../src/LogStoreClient';
@@ -46,3 +53,36 @@ export const createTestStream = async (
 	});
 	return stream;
 };
+
+export const createTestStreamMessage = ({
+	streamId = 'test-stream',
+	partition = 0,
+	timestamp,
+	sequenceNumber = 0,
+	publisherId = '0x0000000000000000000000000000000000000001',
+	msgChainId = 'msgChain',
+	prevMsgRef = null,
+	content = {},
+}: {
+	streamId?: string;
+	partition?: number;
+	timestamp: number;
+	sequenceNumber?: number;
+	publisherId?: string;
+	msgChainId?: string;
+	prevMsgRef?: MessageRef | null;
+	content?: unknown;
+}): StreamMessage =>
+	new StreamMessage({
+		messageId: new MessageID(
+			toStreamID(streamId),
+			partition,
+			timestamp,
+			sequenceNumber,
+			toEthereumAddress(publisherId),
+			msgChainId
+		),
+		prevMsgRef,
+		content: JSON.stringify(content),
+		signature: 'signature',
+	});
@@ -4,6 +4,7 @@ import { createStrictConfig, redactConfig } from '../../src/Config';
 import { CONFIG_TEST } from '../../src/ConfigTest';
 import { generateEthereumAccount } from '../../src/Ethereum';
 import { LogStoreClient } from '../../src/LogStoreClient';
+import { NodeSelectionStrategy } from '../../src/registry/NodeSelection';
 
 describe('Config', () => {
 	describe('validate', () => {
@@ -126,6 +127,58 @@ describe('Config', () => {
 			});
 		});
 
+		it('fills in queries defaults', () => {
+			const clientDefaults = createStrictConfig();
+			expect(clientDefaults.queries).toEqual({
+				retries: 2,
+				attemptTimeout: 30000,
+				partitionConcurrency: 4,
+				progressInterval: 1000,
+				consensusQuorum: 0,
+				maxGapWait: 5000,
+				autoStake: false,
+				sessionTokens: false,
+				sessionTokenTtl: 3600000,
+			});
+			const clientOverrides = createStrictConfig({
+				queries: { retries: 0 },
+			});
+			expect(clientOverrides.queries).toEqual({
+				retries: 0,
+				attemptTimeout: 30000,
+				partitionConcurrency: 4,
+				progressInterval: 1000,
+				consensusQuorum: 0,
+				maxGapWait: 5000,
+				autoStake: false,
+				sessionTokens: false,
+				sessionTokenTtl: 3600000,
+			});
+		});
+
+		it('fills in nodeSelection defaults', () => {
+			const clientDefaults = createStrictConfig();
+			expect(clientDefaults.nodeSelection).toEqual({
+				strategy: 'random',
+				pinnedUrls: [],
+				maxFailures: 3,
+				failureCooldown: 60000,
+			});
+			const clientOverrides = createStrictConfig({
+				nodeSelection: {
+					strategy: NodeSelectionStrategy.Region,
+					region: 'eu-west',
+				},
+			});
+			expect(clientOverrides.nodeSelection).toEqual({
+				strategy: 'region',
+				region: 'eu-west',
+				pinnedUrls: [],
+				maxFailures: 3,
+				failureCooldown: 60000,
+			});
+		});
+
 		it('can override trackers', () => {
 			const trackers = [
 				{
@@ -0,0 +1,119 @@
+import {
+	ContractError,
+	decodeRevertReason,
+	withContractError,
+} from '../../src/ContractError';
+
+describe('ContractError', () => {
+	describe('decodeRevertReason', () => {
+		it('reads the reason of the error', () => {
+			expect(
+				decodeRevertReason({
+					code: 'CALL_EXCEPTION',
+					reason: 'error_notApproved',
+				})
+			).toBe('error_notApproved');
+			expect(
+				decodeRevertReason({
+					code: 'UNPREDICTABLE_GAS_LIMIT',
+					reason: 'execution reverted: error_notApproved',
+				})
+			).toBe('error_notApproved');
+		});
+
+		it('ignores the reason of the errors which are not reverts', () => {
+			expect(
+				decodeRevertReason({
+					code: 'NETWORK_ERROR',
+					reason: 'could not detect network',
+				})
+			).toBeUndefined();
+			expect(decodeRevertReason({ reason: 'error_notApproved' })).toBe(
+				undefined
+			);
+		});
+
+		it('reads the reason from the message', () => {
+			expect(
+				decodeRevertReason(
+					new Error(
+						"VM Exception while processing transaction: reverted with reason string 'error_insufficientStake'"
+					)
+				)
+			).toBe('error_insufficientStake');
+			expect(
+				decodeRevertReason(
+					new Error('execution reverted: error_notApproved\nmore details')
+				)
+			).toBe('error_notApproved');
+		});
+
+		it('reads the reason from the nested errors', () => {
+			expect(
+				decodeRevertReason({
+					message: 'cannot estimate gas',
+					error: {
+						message: 'internal error',
+						data: { message: 'execution reverted: error_notApproved' },
+					},
+				})
+			).toBe('error_notApproved');
+		});
+
+		it('reads the reason from the error wrapped by the contract', () => {
+			const wrapped = Object.assign(
+				new Error('Error in contract call "delegateStake"'),
+				{ reason: { code: 'CALL_EXCEPTION', reason: 'error_notApproved' } }
+			);
+			expect(decodeRevertReason(wrapped)).toBe('error_notApproved');
+		});
+
+		it('ignores an empty reason', () => {
+			expect(
+				decodeRevertReason({
+					code: 'CALL_EXCEPTION',
+					reason: '',
+					error: { code: 'CALL_EXCEPTION', reason: 'error_notApproved' },
+				})
+			).toBe('error_notApproved');
+		});
+
+		it('returns undefined when there is no reason', () => {
+			expect(decodeRevertReason(new Error('network error'))).toBeUndefined();
+			expect(decodeRevertReason('reverted')).toBeUndefined();
+			expect(decodeRevertReason(undefined)).toBeUndefined();
+		});
+
+		it('does not loop on circular errors', () => {
+			const err: Record<string, unknown> = { message: 'failed' };
+			err.error = err;
+			expect(decodeRevertReason(err)).toBeUndefined();
+		});
+	});
+
+	describe('withContractError', () => {
+		it('returns the result of the call', async () => {
+			await expect(withContractError('stake', async () => 1)).resolves.toBe(1);
+		});
+
+		it('rethrows the failure as a ContractError', async () => {
+			const cause = { code: 'CALL_EXCEPTION', reason: 'error_notApproved' };
+			const err = await withContractError('stake', async () => {
+				throw cause;
+			}).catch((e) => e);
+			expect(err).toBeInstanceOf(ContractError);
+			expect(err.operation).toBe('stake');
+			expect(err.reason).toBe('error_notApproved');
+			expect(err.cause).toBe(cause);
+			expect(err.message).toBe('stake reverted: error_notApproved');
+		});
+
+		it('keeps the message of a failure without a reason', async () => {
+			const err = await withContractError('stake', async () => {
+				throw new Error('network error');
+			}).catch((e) => e);
+			expect(err.reason).toBeUndefined();
+			expect(err.message).toBe('stake failed: network error');
+		});
+	});
+});
@@ -0,0 +1,331 @@
+import { toEthereumAddress } from '@streamr/utils';
+import fetch, { Response } from 'node-fetch';
+
+import { Consensus, ConsensusError } from '../../src/Consensus';
+import {
+	ErrorCode,
+	HttpError,
+	HttpUtil,
+	InsufficientQueryStakeError,
+	NodeOverloadedError,
+	NotFoundError,
+	RateLimitedError,
+	SessionTokenExpiredError,
+	StreamNotStoredError,
+	UnauthorizedError,
+	ValidationError,
+} from '../../src/HttpUtil';
+import { NodeManager } from '../../src/registry/NodeManager';
+import { SessionTokenManager } from '../../src/SessionTokenManager';
+import { mockLoggerFactory } from '../test-utils/utils';
+
+jest.mock('node-fetch', () => ({
+	...jest.requireActual('node-fetch'),
+	__esModule: true,
+	default: jest.fn(),
+}));
+
+const fetchMock = fetch as unknown as jest.Mock;
+
+const NODE_URL = 'https://node-1.example.com';
+
+const NODE_ADDRESSES = [
+	'0x0000000000000000000000000000000000000001',
+	'0x0000000000000000000000000000000000000002',
+	'0x0000000000000000000000000000000000000003',
+].map(toEthereumAddress);
+
+const UNSTAKED_ADDRESS = toEthereumAddress(
+	'0x0000000000000000000000000000000000000004'
+);
+
+/**
+ * Creates the HttpUtil with the given config of the queries, with NODE_ADDRESSES staked.
+ */
+const createHttpUtil = (
+	queriesConfig: { consensusQuorum?: number; sessionTokens?: boolean } = {},
+	sessionTokenManager: Partial<SessionTokenManager> = {}
+) => {
+	const nodeManager = {
+		getStakedNodeAddresses: jest.fn(async () => NODE_ADDRESSES),
+	};
+	const config = {
+		queries: {
+			consensusQuorum: 0,
+			sessionTokens: false,
+			...queriesConfig,
+		},
+	};
+	const authentication = {
+		getAddress: async () => NODE_ADDRESSES[0],
+		createMessageSignature: async () => 'signature',
+	};
+	const httpUtil = new HttpUtil(
+		authentication as any,
+		sessionTokenManager as SessionTokenManager,
+		nodeManager as unknown as NodeManager,
+		config as any,
+		mockLoggerFactory()
+	);
+	return { httpUtil, nodeManager };
+};
+
+const signedBy = (signers: string[]): Consensus[] =>
+	signers.map((signer) => ({ hash: '0x1234', signer, signature: '0x' }));
+
+describe('HttpUtil', () => {
+	describe('verifyConsensusSigners', () => {
+		const verifyConsensusSigners = (
+			httpUtil: HttpUtil,
+			consensus: Consensus[]
+		): Promise<void> => httpUtil['verifyConsensusSigners'](consensus);
+
+		it('does not read the staked nodes without a quorum', async () => {
+			const { httpUtil, nodeManager } = createHttpUtil();
+
+			await verifyConsensusSigners(httpUtil, signedBy([UNSTAKED_ADDRESS]));
+
+			expect(nodeManager.getStakedNodeAddresses).not.toHaveBeenCalled();
+		});
+
+		it('accepts a result signed by the quorum of the staked nodes', async () => {
+			const { httpUtil } = createHttpUtil({ consensusQuorum: 0.5 });
+
+			await expect(
+				verifyConsensusSigners(httpUtil, signedBy(NODE_ADDRESSES.slice(0, 2)))
+			).resolves.toBeUndefined();
+		});
+
+		it('rejects a result signed by fewer nodes than the quorum', async () => {
+			const { httpUtil } = createHttpUtil({ consensusQuorum: 1 });
+
+			const err = await verifyConsensusSigners(
+				httpUtil,
+				signedBy(NODE_ADDRESSES.slice(0, 2))
+			).catch((e) => e);
+
+			expect(err).toBeInstanceOf(ConsensusError);
+			expect(err.message).toBe('Consensus signed by 2 of the required 3 nodes');
+			expect(err.missingSigners).toEqual([NODE_ADDRESSES[2]]);
+			expect(err.unknownSigners).toEqual([]);
+		});
+
+		it('rejects a result signed by a node which is not staked', async () => {
+			const { httpUtil } = createHttpUtil({ consensusQuorum: 0.5 });
+
+			const err = await verifyConsensusSigners(
+				httpUtil,
+				signedBy([...NODE_ADDRESSES, UNSTAKED_ADDRESS])
+			).catch((e) => e);
+
+			expect(err).toBeInstanceOf(ConsensusError);
+			expect(err.message).toBe(
+				`Consensus signed by unknown nodes: ${UNSTAKED_ADDRESS}`
+			);
+			expect(err.missingSigners).toEqual([]);
+			expect(err.unknownSigners).toEqual([UNSTAKED_ADDRESS]);
+		});
+
+		it('counts a node which signed more than once towards the quorum once', async () => {
+			const { httpUtil } = createHttpUtil({ consensusQuorum: 0.5 });
+
+			const err = await verifyConsensusSigners(
+				httpUtil,
+				signedBy([NODE_ADDRESSES[0], NODE_ADDRESSES[0]])
+			).catch((e) => e);
+
+			expect(err).toBeInstanceOf(ConsensusError);
+			expect(err.message).toBe('Consensus signed by 1 of the required 2 nodes');
+			expect(err.missingSigners).toEqual(NODE_ADDRESSES.slice(1));
+		});
+	});
+
+	describe('errors', () => {
+		/**
+		 * Fetches from a node responding with the status and the body.
+		 */
+		const fetchError = (
+			status: number,
+			body = '',
+			headers: Record<string, string> = {}
+		): Promise<any> => {
+			const url = `${NODE_URL}/streams/test-stream/data/partitions/0/last`;
+			fetchMock.mockResolvedValue(new Response(body, { url, status, headers }));
+			const { httpUtil } = createHttpUtil();
+			return httpUtil.fetchJson(url).catch((e) => e);
+		};
+
+		it.each([
+			[401, UnauthorizedError, ErrorCode.UNAUTHORIZED],
+			[403, UnauthorizedError, ErrorCode.UNAUTHORIZED],
+			[429, RateLimitedError, ErrorCode.RATE_LIMITED],
+			[503, NodeOverloadedError, ErrorCode.NODE_OVERLOADED],
+			[500, HttpError, ErrorCode.UNKNOWN],
+		])(
+			'maps the status %d without a body to its error',
+			async (status, ErrorClass, code) => {
+				const err = await fetchError(status);
+
+				expect(err).toBeInstanceOf(ErrorClass);
+				expect(err.code).toBe(code);
+				expect(err.nodeUrl).toBe(NODE_URL);
+			}
+		);
+
+		it.each([
+			[ErrorCode.VALIDATION_ERROR, ValidationError],
+			[ErrorCode.NOT_FOUND, NotFoundError],
+			[ErrorCode.INSUFFICIENT_QUERY_STAKE, InsufficientQueryStakeError],
+			[ErrorCode.STREAM_NOT_STORED, StreamNotStoredError],
+			[ErrorCode.UNAUTHORIZED, UnauthorizedError],
+		])(
+			'maps the code %s of the body to its error',
+			async (code, ErrorClass) => {
+				// the code of the body takes precedence over the status
+				const err = await fetchError(429, JSON.stringify({ code }));
+
+				expect(err).toBeInstanceOf(ErrorClass);
+				expect(err.code).toBe(code);
+			}
+		);
+
+		it('reads the stake required for the query', async () => {
+			const err = await fetchError(
+				402,
+				JSON.stringify({
+					code: ErrorCode.INSUFFICIENT_QUERY_STAKE,
+					requiredStake: '1000000000000000000000',
+					balance: '40',
+				})
+			);
+
+			expect(err).toBeInstanceOf(InsufficientQueryStakeError);
+			expect(err.requiredStake).toBe(BigInt('1000000000000000000000'));
+			expect(err.balance).toBe(BigInt(40));
+		});
+
+		it('reads the stream which is not stored', async () => {
+			const err = await fetchError(
+				404,
+				JSON.stringify({
+					code: ErrorCode.STREAM_NOT_STORED,
+					streamId: 'test-stream',
+				})
+			);
+
+			expect(err).toBeInstanceOf(StreamNotStoredError);
+			expect(err.streamId).toBe('test-stream');
+		});
+
+		it('reads the delay to retry after from the header or the body', async () => {
+			const fromHeader = await fetchError(429, '', { 'Retry-After': '2' });
+			expect(fromHeader.retryAfter).toBe(2000);
+
+			const fromBody = await fetchError(
+				503,
+				JSON.stringify({ retryAfter: 1500 })
+			);
+			expect(fromBody).toBeInstanceOf(NodeOverloadedError);
+			expect(fromBody.retryAfter).toBe(1500);
+		});
+	});
+
+	describe('authentication', () => {
+		const QUERY_URL = `${NODE_URL}/streams/test-stream/data/partitions/0/last/estimate`;
+
+		const respondWith = (status: number, body: unknown) =>
+			new Response(JSON.stringify(body), { url: QUERY_URL, status });
+
+		const tokenExpired = () =>
+			respondWith(401, { code: ErrorCode.SESSION_TOKEN_EXPIRED });
+
+		const getAuthorization = (call: number): string =>
+			fetchMock.mock.calls[call][1].headers.Authorization;
+
+		const createSessionTokenManager = () => {
+			let count = 0;
+			return {
+				getToken: jest.fn(async () => `token-${++count}`),
+				invalidate: jest.fn(),
+			};
+		};
+
+		it('signs the address of the client without session tokens', async () => {
+			fetchMock.mockResolvedValue(respondWith(200, { messages: 1 }));
+			const sessionTokenManager = createSessionTokenManager();
+			const { httpUtil } = createHttpUtil({}, sessionTokenManager);
+
+			await expect(httpUtil.fetchJson(QUERY_URL)).resolves.toEqual({
+				messages: 1,
+			});
+
+			expect(getAuthorization(0)).toBe(
+				`Basic ${Buffer.from(`${NODE_ADDRESSES[0]}:signature`).toString(
+					'base64'
+				)}`
+			);
+			expect(sessionTokenManager.getToken).not.toHaveBeenCalled();
+		});
+
+		it('sends the session token when enabled', async () => {
+			fetchMock.mockResolvedValue(respondWith(200, { messages: 1 }));
+			const { httpUtil } = createHttpUtil(
+				{ sessionTokens: true },
+				createSessionTokenManager()
+			);
+
+			await httpUtil.fetchJson(QUERY_URL);
+
+			expect(getAuthorization(0)).toBe('Bearer token-1');
+		});
+
+		it('retries once with a new token if the token expired', async () => {
+			fetchMock
+				.mockResolvedValueOnce(tokenExpired())
+				.mockResolvedValueOnce(respondWith(200, { messages: 1 }));
+			const sessionTokenManager = createSessionTokenManager();
+			const { httpUtil } = createHttpUtil(
+				{ sessionTokens: true },
+				sessionTokenManager
+			);
+
+			await expect(httpUtil.fetchJson(QUERY_URL)).resolves.toEqual({
+				messages: 1,
+			});
+
+			expect(sessionTokenManager.invalidate).toHaveBeenCalledTimes(1);
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+			expect(getAuthorization(1)).toBe('Bearer token-2');
+		});
+
+		it('fails if the new token is rejected as well', async () => {
+			fetchMock.mockImplementation(async () => tokenExpired());
+			const { httpUtil } = createHttpUtil(
+				{ sessionTokens: true },
+				createSessionTokenManager()
+			);
+
+			await expect(httpUtil.fetchJson(QUERY_URL)).rejects.toBeInstanceOf(
+				SessionTokenExpiredError
+			);
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+		});
+
+		it('does not retry other failures', async () => {
+			fetchMock.mockResolvedValue(
+				respondWith(401, { code: ErrorCode.UNAUTHORIZED })
+			);
+			const sessionTokenManager = createSessionTokenManager();
+			const { httpUtil } = createHttpUtil(
+				{ sessionTokens: true },
+				sessionTokenManager
+			);
+
+			await expect(httpUtil.fetchJson(QUERY_URL)).rejects.toBeInstanceOf(
+				UnauthorizedError
+			);
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+			expect(sessionTokenManager.invalidate).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,207 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { toStreamID } from '@streamr/protocol';
+import { EthereumAddress, toEthereumAddress } from '@streamr/utils';
+
+import { LogStoreRegistry } from '../../src/registry/LogStoreRegistry';
+import { mockLoggerFactory } from '../test-utils/utils';
+
+jest.mock('../../src/Ethereum', () => ({
+	getStreamRegistryChainProviders: () => [{}],
+}));
+
+const STREAM_ID = toStreamID('0x0000000000000000000000000000000000000001/test');
+
+const OWN_ADDRESS = toEthereumAddress(
+	'0x0000000000000000000000000000000000000001'
+);
+
+const OTHER_ADDRESS = toEthereumAddress(
+	'0x0000000000000000000000000000000000000002'
+);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * The error of a call of a contract of the streamr client, which wraps the error of ethers.
+ */
+const contractCallError = (cause: object) =>
+	Object.assign(new Error('Error in contract call "storeStakeholders"'), {
+		reason: cause,
+	});
+
+const indexOutOfRange = () =>
+	contractCallError({
+		code: 'CALL_EXCEPTION',
+		errorName: 'Panic',
+		errorArgs: [BigNumber.from(0x32)],
+	});
+
+interface DataStored {
+	fees: number;
+	bytesStored: number;
+	/** The time of the block in milliseconds */
+	time: number;
+}
+
+const createLogStoreRegistry = ({
+	stake = 0,
+	stakeholders = [] as EthereumAddress[],
+	balances = {} as Record<string, number>,
+	dataStored = [] as DataStored[],
+	outOfRange = indexOutOfRange,
+} = {}) => {
+	const contract = {
+		stores: jest.fn(async () => BigNumber.from(stake)),
+		storeStakeholders: jest.fn(async (_streamId: string, index: number) => {
+			if (index >= stakeholders.length) {
+				throw outOfRange();
+			}
+			return stakeholders[index];
+		}),
+		storeBalanceOf: jest.fn(async (address: string) =>
+			BigNumber.from(balances[address] ?? 0)
+		),
+	};
+	const graphQLClient = {
+		fetchPaginatedResults: async function* () {
+			for (const { fees, bytesStored, time } of dataStored) {
+				yield {
+					id: `${time}`,
+					fees: `${fees}`,
+					bytesStored: `${bytesStored}`,
+					// The subgraph records the time in seconds
+					blockTimestamp: `${Math.floor(time / 1000)}`,
+				};
+			}
+		},
+	};
+	const logStoreRegistry = new LogStoreRegistry(
+		{ createReadContract: () => contract } as any,
+		{} as any,
+		{ toStreamID: async (id: string) => toStreamID(id) } as any,
+		graphQLClient as any,
+		// no listeners of the events of the contract
+		{
+			getObserver: () => ({ on: () => undefined }),
+			getListenerCount: () => 0,
+		} as any,
+		{ getAddress: async () => OWN_ADDRESS } as any,
+		mockLoggerFactory(),
+		{
+			contracts: {
+				logStoreStoreManagerChainAddress:
+					'0x0000000000000000000000000000000000000010',
+			},
+		} as any
+	);
+	return { logStoreRegistry, contract };
+};
+
+describe('LogStoreRegistry', () => {
+	describe('getStoreInfo', () => {
+		it('lists the stakeholders of the store with their balances', async () => {
+			const { logStoreRegistry, contract } = createLogStoreRegistry({
+				stake: 300,
+				stakeholders: [OTHER_ADDRESS, OWN_ADDRESS],
+				balances: { [OTHER_ADDRESS]: 200, [OWN_ADDRESS]: 100 },
+			});
+
+			const info = await logStoreRegistry.getStoreInfo(STREAM_ID);
+
+			expect(info).toEqual(
+				expect.objectContaining({
+					streamId: STREAM_ID,
+					stake: BigInt(300),
+					stakeholders: [
+						{ address: OTHER_ADDRESS, balance: BigInt(200) },
+						{ address: OWN_ADDRESS, balance: BigInt(100) },
+					],
+					ownBalance: BigInt(100),
+				})
+			);
+			// the index out of range ends the listing
+			expect(contract.storeStakeholders).toHaveBeenCalledTimes(3);
+		});
+
+		it('ends the listing on a revert without data', async () => {
+			const { logStoreRegistry } = createLogStoreRegistry({
+				stakeholders: [OTHER_ADDRESS],
+				outOfRange: () =>
+					contractCallError({ code: 'CALL_EXCEPTION', data: '0x' }),
+			});
+
+			const info = await logStoreRegistry.getStoreInfo(STREAM_ID);
+
+			expect(info.stakeholders).toEqual([
+				{ address: OTHER_ADDRESS, balance: BigInt(0) },
+			]);
+			expect(info.ownBalance).toBe(BigInt(0));
+		});
+
+		it('fails on other failures than an index out of range', async () => {
+			const networkError = contractCallError({
+				code: 'NETWORK_ERROR',
+				reason: 'could not detect network',
+			});
+			const revert = contractCallError({
+				code: 'CALL_EXCEPTION',
+				errorName: 'Panic',
+				// arithmetic overflow
+				errorArgs: [BigNumber.from(0x11)],
+			});
+			for (const err of [networkError, revert]) {
+				const { logStoreRegistry } = createLogStoreRegistry({
+					stakeholders: [OTHER_ADDRESS],
+					outOfRange: () => err,
+				});
+
+				await expect(logStoreRegistry.getStoreInfo(STREAM_ID)).rejects.toBe(
+					err
+				);
+			}
+		});
+
+		it('stops reading a contract which never reverts', async () => {
+			const { logStoreRegistry, contract } = createLogStoreRegistry();
+			contract.storeStakeholders.mockImplementation(async () => OTHER_ADDRESS);
+
+			await expect(logStoreRegistry.getStoreInfo(STREAM_ID)).rejects.toThrow(
+				`Store of stream ${STREAM_ID} has more than 1000 stakeholders`
+			);
+			expect(contract.storeStakeholders).toHaveBeenCalledTimes(1000);
+		});
+
+		it('estimates the runway from the fees of the last 7 days', async () => {
+			const now = Date.now();
+			const { logStoreRegistry } = createLogStoreRegistry({
+				stake: 700,
+				dataStored: [
+					{ fees: 1000, bytesStored: 10, time: now - 8 * DAY },
+					{ fees: 60, bytesStored: 20, time: now - 6 * DAY },
+					{ fees: 40, bytesStored: 30, time: now - DAY },
+				],
+			});
+
+			const info = await logStoreRegistry.getStoreInfo(STREAM_ID);
+
+			expect(info.bytesStored).toBe(BigInt(60));
+			expect(info.feesPaid).toBe(BigInt(1100));
+			// 100 paid in 7 days, so 700 lasts for 49 days
+			expect(info.runway).toBe(49 * DAY);
+		});
+
+		it('has no runway without data stored in the last 7 days', async () => {
+			const { logStoreRegistry } = createLogStoreRegistry({
+				stake: 700,
+				dataStored: [
+					{ fees: 1000, bytesStored: 10, time: Date.now() - 8 * DAY },
+				],
+			});
+
+			const info = await logStoreRegistry.getStoreInfo(STREAM_ID);
+
+			expect(info.feesPaid).toBe(BigInt(1000));
+			expect(info.runway).toBeUndefined();
+		});
+	});
+});
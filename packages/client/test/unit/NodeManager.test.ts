@@ -0,0 +1,260 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { EthereumAddress, toEthereumAddress } from '@streamr/utils';
+import { EventEmitter } from 'events';
+
+import { NodeManager } from '../../src/registry/NodeManager';
+import {
+	LogStoreNode,
+	NodeSelectionStrategy,
+} from '../../src/registry/NodeSelection';
+import { mockLoggerFactory } from '../test-utils/utils';
+
+jest.mock('../../src/Ethereum', () => ({
+	getStreamRegistryChainProviders: () => [{}],
+}));
+
+const STAKE_REQUIRED_AMOUNT = 100;
+
+const createAddress = (index: number): EthereumAddress =>
+	toEthereumAddress(`0x${index.toString(16).padStart(40, '0')}`);
+
+const createMetadata = (index: number): string =>
+	JSON.stringify({ http: `https://node-${index}.example.com` });
+
+/**
+ * The node manager contract with the registered nodes, emitting the events of the nodes.
+ */
+class FakeNodeManagerContract extends EventEmitter {
+	readonly registered = new Map<
+		EthereumAddress,
+		{ metadata: string; stake: number }
+	>();
+
+	register(index: number, stake: number, metadata = createMetadata(index)) {
+		this.registered.set(createAddress(index), { metadata, stake });
+	}
+
+	async nodeAddresses(): Promise<string[]> {
+		return [...this.registered.keys()];
+	}
+
+	async stakeRequiredAmount(): Promise<BigNumber> {
+		return BigNumber.from(STAKE_REQUIRED_AMOUNT);
+	}
+
+	async nodes(address: EthereumAddress) {
+		const { metadata, stake } = this.registered.get(address)!;
+		return {
+			metadata,
+			lastSeen: BigNumber.from(1000),
+			stake: BigNumber.from(stake),
+		};
+	}
+}
+
+// Stop the directory sync of each NodeManager after its test
+const destroySignals: (() => void)[] = [];
+
+const createNodeManager = () => {
+	const contract = new FakeNodeManagerContract();
+	const eventEmitter = { emit: jest.fn() };
+	let onDestroy: () => void = () => undefined;
+	const destroySignal = {
+		onDestroy: {
+			listen: (listener: () => void) => {
+				onDestroy = listener;
+			},
+		},
+	};
+	const config = {
+		contracts: {
+			logStoreNodeManagerChainAddress:
+				'0x0000000000000000000000000000000000000010',
+		},
+		nodeSelection: {
+			strategy: NodeSelectionStrategy.RoundRobin,
+			pinnedUrls: [],
+			maxFailures: 3,
+			failureCooldown: 60000,
+		},
+	};
+	const nodeManager = new NodeManager(
+		{ createReadContract: () => contract } as any,
+		eventEmitter as any,
+		destroySignal as any,
+		mockLoggerFactory(),
+		config as any
+	);
+	const destroy = () => onDestroy();
+	destroySignals.push(destroy);
+	return { nodeManager, contract, eventEmitter, destroy };
+};
+
+const collectNodeUrls = async (nodeManager: NodeManager): Promise<string[]> => {
+	const urls: string[] = [];
+	for await (const url of nodeManager.getNodeUrls()) {
+		urls.push(url);
+	}
+	return urls.sort();
+};
+
+const toAddresses = (nodes: LogStoreNode[]): EthereumAddress[] =>
+	nodes.map(({ address }) => address).sort();
+
+describe('NodeManager', () => {
+	afterEach(() => {
+		destroySignals.splice(0).forEach((destroy) => destroy());
+	});
+
+	it('reads the nodes and their stakes from the contract', async () => {
+		const { nodeManager, contract } = createNodeManager();
+		contract.register(1, STAKE_REQUIRED_AMOUNT);
+		contract.register(2, STAKE_REQUIRED_AMOUNT - 1);
+		contract.register(3, STAKE_REQUIRED_AMOUNT, 'invalid metadata');
+
+		const nodes = await nodeManager.getNodes();
+
+		expect(nodes).toEqual([
+			expect.objectContaining({
+				address: createAddress(1),
+				url: 'https://node-1.example.com',
+				stake: BigInt(STAKE_REQUIRED_AMOUNT),
+				lastSeen: 1000000,
+				staked: true,
+			}),
+			expect.objectContaining({
+				address: createAddress(2),
+				stake: BigInt(STAKE_REQUIRED_AMOUNT - 1),
+				staked: false,
+			}),
+		]);
+		// a staked node is a signer even if the client can't query it
+		expect((await nodeManager.getStakedNodeAddresses()).sort()).toEqual([
+			createAddress(1),
+			createAddress(3),
+		]);
+	});
+
+	it('queries only the staked nodes', async () => {
+		const { nodeManager, contract } = createNodeManager();
+		contract.register(1, STAKE_REQUIRED_AMOUNT);
+		contract.register(2, 0);
+
+		expect(await collectNodeUrls(nodeManager)).toEqual([
+			'https://node-1.example.com',
+		]);
+	});
+
+	it('adds a node updated in the contract', async () => {
+		const { nodeManager, contract, eventEmitter } = createNodeManager();
+		contract.register(1, STAKE_REQUIRED_AMOUNT);
+		await nodeManager.getNodes();
+
+		contract.emit(
+			'NodeUpdated',
+			createAddress(2),
+			createMetadata(2),
+			true,
+			BigNumber.from(2000)
+		);
+
+		const node = (await nodeManager.getNodes()).find(
+			({ address }) => address === createAddress(2)
+		);
+		expect(node).toEqual(
+			expect.objectContaining({
+				url: 'https://node-2.example.com',
+				stake: BigInt(0),
+				lastSeen: 2000000,
+				staked: false,
+			})
+		);
+		expect(eventEmitter.emit).toHaveBeenCalledWith('nodeJoined', node);
+	});
+
+	it('updates the stake of a node delegated to', async () => {
+		const { nodeManager, contract } = createNodeManager();
+		contract.register(1, STAKE_REQUIRED_AMOUNT);
+		contract.register(2, 0);
+		await nodeManager.getNodes();
+
+		contract.emit(
+			'StakeDelegateUpdated',
+			createAddress(5),
+			createAddress(2),
+			BigNumber.from(STAKE_REQUIRED_AMOUNT),
+			BigNumber.from(STAKE_REQUIRED_AMOUNT)
+		);
+
+		expect(await collectNodeUrls(nodeManager)).toEqual([
+			'https://node-1.example.com',
+			'https://node-2.example.com',
+		]);
+		expect((await nodeManager.getStakedNodeAddresses()).sort()).toEqual([
+			createAddress(1),
+			createAddress(2),
+		]);
+	});
+
+	it('removes a node removed from the contract', async () => {
+		const { nodeManager, contract, eventEmitter } = createNodeManager();
+		contract.register(1, STAKE_REQUIRED_AMOUNT);
+		contract.register(2, STAKE_REQUIRED_AMOUNT);
+		const [, removed] = await nodeManager.getNodes();
+
+		contract.emit('NodeRemoved', createAddress(2));
+
+		expect(toAddresses(await nodeManager.getNodes())).toEqual([
+			createAddress(1),
+		]);
+		expect(await nodeManager.getStakedNodeAddresses()).toEqual([
+			createAddress(1),
+		]);
+		expect(eventEmitter.emit).toHaveBeenCalledWith('nodeLeft', removed);
+	});
+
+	describe('reconciliation', () => {
+		beforeEach(() => {
+			jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+		});
+
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		const reconcile = async () => {
+			jest.advanceTimersByTime(5 * 60 * 1000);
+			await new Promise(setImmediate);
+		};
+
+		it('reads the contract again every 5 minutes to catch up with missed events', async () => {
+			const { nodeManager, contract, eventEmitter } = createNodeManager();
+			contract.register(1, STAKE_REQUIRED_AMOUNT);
+			contract.register(2, STAKE_REQUIRED_AMOUNT);
+			const [, removed] = await nodeManager.getNodes();
+
+			contract.registered.delete(createAddress(2));
+			contract.register(3, STAKE_REQUIRED_AMOUNT);
+			await reconcile();
+
+			const nodes = await nodeManager.getNodes();
+			expect(toAddresses(nodes)).toEqual([createAddress(1), createAddress(3)]);
+			expect(eventEmitter.emit).toHaveBeenCalledWith('nodeLeft', removed);
+			expect(eventEmitter.emit).toHaveBeenCalledWith('nodeJoined', nodes[1]);
+			expect(eventEmitter.emit).toHaveBeenCalledTimes(2);
+		});
+
+		it('stops the sync when the client is destroyed', async () => {
+			const { nodeManager, contract, destroy } = createNodeManager();
+			contract.register(1, STAKE_REQUIRED_AMOUNT);
+			await nodeManager.getNodes();
+			const nodeAddresses = jest.spyOn(contract, 'nodeAddresses');
+
+			destroy();
+			await reconcile();
+
+			expect(nodeAddresses).not.toHaveBeenCalled();
+			expect(contract.eventNames()).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,149 @@
+import { toEthereumAddress } from '@streamr/utils';
+
+import { createNodeMetadata } from '../../src/NodeMetadata';
+import {
+	LogStoreNode,
+	NodeHealth,
+	NodeSelectionStrategy,
+	orderNodeUrls,
+} from '../../src/registry/NodeSelection';
+
+const createNode = (index: number, region?: string): LogStoreNode => {
+	const url = `https://node-${index}.example.com`;
+	return {
+		address: toEthereumAddress(`0x${index.toString(16).padStart(40, '0')}`),
+		url,
+		metadata: createNodeMetadata({ http: url, region }),
+		stake: BigInt(0),
+		lastSeen: 0,
+		staked: true,
+	};
+};
+
+const nodes = [createNode(3, 'eu'), createNode(1, 'us'), createNode(2, 'eu')];
+
+const order = (
+	strategy: NodeSelectionStrategy,
+	options: Partial<Parameters<typeof orderNodeUrls>[2]> = {}
+): string[] =>
+	orderNodeUrls(nodes, strategy, {
+		health: new NodeHealth(),
+		pinnedUrls: [],
+		roundRobinIndex: 0,
+		...options,
+	});
+
+describe('NodeSelection', () => {
+	describe('orderNodeUrls', () => {
+		it('orders all the nodes randomly', () => {
+			expect(order(NodeSelectionStrategy.Random).sort()).toEqual(
+				nodes.map(({ url }) => url).sort()
+			);
+		});
+
+		it('starts each round robin from the node following the previous start', () => {
+			const urls = [
+				'https://node-1.example.com',
+				'https://node-2.example.com',
+				'https://node-3.example.com',
+			];
+			expect(
+				order(NodeSelectionStrategy.RoundRobin, { roundRobinIndex: 0 })
+			).toEqual(urls);
+			expect(
+				order(NodeSelectionStrategy.RoundRobin, { roundRobinIndex: 1 })
+			).toEqual([urls[1], urls[2], urls[0]]);
+			expect(
+				order(NodeSelectionStrategy.RoundRobin, { roundRobinIndex: 5 })
+			).toEqual([urls[2], urls[0], urls[1]]);
+		});
+
+		it('returns no nodes for a round robin over no nodes', () => {
+			expect(
+				orderNodeUrls([], NodeSelectionStrategy.RoundRobin, {
+					health: new NodeHealth(),
+					pinnedUrls: [],
+					roundRobinIndex: 3,
+				})
+			).toEqual([]);
+		});
+
+		it('only uses the pinned urls, in their order', () => {
+			const pinnedUrls = ['https://pinned-2.example.com', nodes[0].url];
+			expect(order(NodeSelectionStrategy.Pinned, { pinnedUrls })).toEqual(
+				pinnedUrls
+			);
+		});
+
+		it('orders the nodes by their latency, the unmeasured ones first', () => {
+			const health = new NodeHealth();
+			health.onSuccess('https://node-1.example.com', 300);
+			health.onSuccess('https://node-3.example.com', 100);
+			expect(order(NodeSelectionStrategy.LowestLatency, { health })).toEqual([
+				'https://node-2.example.com',
+				'https://node-3.example.com',
+				'https://node-1.example.com',
+			]);
+		});
+
+		it('prefers the nodes of the region', () => {
+			const urls = order(NodeSelectionStrategy.Region, { region: 'eu' });
+			expect(urls.slice(0, 2).sort()).toEqual([
+				'https://node-2.example.com',
+				'https://node-3.example.com',
+			]);
+			expect(urls[2]).toEqual('https://node-1.example.com');
+		});
+	});
+
+	describe('NodeHealth', () => {
+		const url = 'https://node-1.example.com';
+
+		beforeEach(() => {
+			jest.useFakeTimers({ now: 0 });
+		});
+
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		it('averages the latency', () => {
+			const health = new NodeHealth();
+			expect(health.getLatency(url)).toBeUndefined();
+			health.onSuccess(url, 100);
+			expect(health.getLatency(url)).toEqual(100);
+			health.onSuccess(url, 200);
+			expect(health.getLatency(url)).toBeCloseTo(130);
+		});
+
+		it('demotes a node after failures in a row until the cooldown is over', () => {
+			const health = new NodeHealth();
+			health.onFailure(url);
+			health.onFailure(url);
+			expect(health.isDemoted(url, 3, 1000)).toBe(false);
+			health.onFailure(url);
+			expect(health.isDemoted(url, 3, 1000)).toBe(true);
+			jest.advanceTimersByTime(1000);
+			expect(health.isDemoted(url, 3, 1000)).toBe(false);
+		});
+
+		it('resets the failures on a success', () => {
+			const health = new NodeHealth();
+			health.onFailure(url);
+			health.onFailure(url);
+			health.onSuccess(url);
+			health.onFailure(url);
+			expect(health.isDemoted(url, 2, 1000)).toBe(false);
+		});
+
+		it('demotes a node until the delay it asked for is over', () => {
+			const health = new NodeHealth();
+			health.onFailure(url, 5000);
+			expect(health.isDemoted(url, 3, 1000)).toBe(true);
+			jest.advanceTimersByTime(4999);
+			expect(health.isDemoted(url, 3, 1000)).toBe(true);
+			jest.advanceTimersByTime(1);
+			expect(health.isDemoted(url, 3, 1000)).toBe(false);
+		});
+	});
+});
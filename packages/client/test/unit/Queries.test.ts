@@ -0,0 +1,1273 @@
+import { MessageStream, Subscription } from '@logsn/streamr-client';
+import {
+	MessageRef,
+	StreamMessage,
+	toStreamID,
+	toStreamPartID,
+} from '@streamr/protocol';
+
+import { ConsensusHash } from '../../src/Consensus';
+import { LogStoreClientEventEmitter } from '../../src/events';
+import {
+	HttpUtil,
+	InsufficientQueryStakeError,
+	QueryHttpResponse,
+	RateLimitedError,
+	ValidationError,
+} from '../../src/HttpUtil';
+import {
+	AggregateFunction,
+	Queries,
+	QueryCancellation,
+	QueryCancelledError,
+	QueryFanOutError,
+	QueryFromOptions,
+	QueryOptions,
+	QueryPage,
+	QueryProgress,
+	QueryResumption,
+	QueryType,
+} from '../../src/Queries';
+import { LogStoreRegistry } from '../../src/registry/LogStoreRegistry';
+import { NodeManager } from '../../src/registry/NodeManager';
+import { toStreamMessage } from '../../src/utils/messages';
+import {
+	createTestStreamMessage,
+	mockLoggerFactory,
+} from '../test-utils/utils';
+
+jest.mock('@logsn/streamr-client', () => ({
+	...jest.requireActual('@logsn/streamr-client'),
+	// The query is delivered as is, without the decryption and validation of the messages
+	createSubscribePipeline: () =>
+		new (jest.requireActual('@logsn/streamr-client').MessageStream)(),
+}));
+
+const STREAM_PART_ID = toStreamPartID(toStreamID('test-stream'), 0);
+
+const NODE_URLS = [
+	'https://node-1.example.com',
+	'https://node-2.example.com',
+	'https://node-3.example.com',
+];
+
+const createMessages = (timestamps: number[]): StreamMessage[] =>
+	timestamps.map((timestamp) => createTestStreamMessage({ timestamp }));
+
+async function* toStream(
+	messages: StreamMessage[],
+	error?: Error
+): AsyncGenerator<StreamMessage> {
+	for (const message of messages) {
+		yield message;
+	}
+	if (error !== undefined) {
+		throw error;
+	}
+}
+
+/**
+ * The response of a node, signed for the hash of the messages unless another hash is given.
+ */
+const createResponse = (
+	messages: StreamMessage[],
+	hash = hashMessages(messages)
+): QueryHttpResponse => ({
+	consensus: [{ hash, signer: '0x', signature: '0x' }],
+	messages: toStream(messages),
+});
+
+const hashMessages = (messages: StreamMessage[]): string => {
+	const hash = new ConsensusHash();
+	messages.forEach((message) => hash.update(message));
+	return hash.digest();
+};
+
+const collectMessages = async (
+	source: AsyncIterable<StreamMessage>
+): Promise<StreamMessage[]> => {
+	const messages: StreamMessage[] = [];
+	for await (const message of source) {
+		messages.push(message);
+	}
+	return messages;
+};
+
+/**
+ * Creates the Queries with the given HttpUtil methods, querying the nodes in the order of NODE_URLS.
+ */
+const createQueries = (
+	httpUtil: Partial<HttpUtil>,
+	queriesConfig: { partitionConcurrency?: number; autoStake?: boolean } = {},
+	logStoreRegistry: Partial<LogStoreRegistry> = {}
+) => {
+	const nodeManager = {
+		getNodeUrl: async (): Promise<string> => NODE_URLS[0],
+		getNodeUrls: async function* (): AsyncGenerator<string> {
+			for (const nodeUrl of NODE_URLS) {
+				yield nodeUrl;
+			}
+		},
+		onNodeSuccess: jest.fn(),
+		onNodeFailure: jest.fn(),
+	};
+	const eventEmitter = { emit: jest.fn() };
+	const config = {
+		queries: {
+			retries: 2,
+			attemptTimeout: 1000,
+			partitionConcurrency: 4,
+			progressInterval: 1000,
+			autoStake: false,
+			...queriesConfig,
+		},
+	};
+	const queries = new Queries(
+		undefined as any,
+		nodeManager as unknown as NodeManager,
+		logStoreRegistry as LogStoreRegistry,
+		{
+			createQueryString: HttpUtil.prototype.createQueryString,
+			...httpUtil,
+		} as HttpUtil,
+		undefined as any,
+		undefined as any,
+		eventEmitter as unknown as LogStoreClientEventEmitter,
+		config as any,
+		mockLoggerFactory()
+	);
+	return { queries, nodeManager, eventEmitter };
+};
+
+const toMessageStream = (messages: StreamMessage[]): MessageStream => {
+	const messageStream = new MessageStream();
+	messageStream.pull(toStream(messages));
+	return messageStream;
+};
+
+const collectStreamMessages = async (
+	messageStream: MessageStream
+): Promise<StreamMessage[]> => {
+	const messages: StreamMessage[] = [];
+	for await (const message of messageStream) {
+		messages.push(toStreamMessage(message));
+	}
+	return messages;
+};
+
+const createProgress = (queryType: QueryType): QueryProgress =>
+	new QueryProgress(
+		{ queryId: 'test', streamId: 'test-stream', partition: 0, queryType },
+		() => undefined,
+		1000
+	);
+
+describe('Queries', () => {
+	describe('QueryResumption', () => {
+		const [first, second, third] = createMessages([1000, 2000, 2000]);
+
+		it('continues the query of the latest messages after the last delivered message', () => {
+			const resumption = new QueryResumption(QueryType.Last, { count: 3 });
+			expect(resumption.getRemainingQuery()).toEqual({
+				queryType: QueryType.Last,
+				query: { count: 3 },
+			});
+
+			resumption.onDelivered(first);
+			expect(resumption.getRemainingQuery()).toEqual({
+				queryType: QueryType.From,
+				query: { fromTimestamp: 1000, fromSequenceNumber: 0 },
+			});
+		});
+
+		it('continues the query of the latest messages before a point in time as a range', () => {
+			const resumption = new QueryResumption(QueryType.LastBefore, {
+				count: 3,
+				beforeTimestamp: 5000,
+				beforeSequenceNumber: 1,
+			});
+			resumption.onDelivered(first);
+			expect(resumption.getRemainingQuery()).toEqual({
+				queryType: QueryType.Range,
+				query: {
+					fromTimestamp: 1000,
+					fromSequenceNumber: 0,
+					toTimestamp: 5000,
+					toSequenceNumber: 1,
+				},
+			});
+		});
+
+		it('continues the query of the latest messages up to the end of the timestamp without a sequence number', () => {
+			const resumption = new QueryResumption(QueryType.LastBefore, {
+				count: 3,
+				beforeTimestamp: 5000,
+			});
+			resumption.onDelivered(first);
+			expect(resumption.getRemainingQuery().query).toEqual({
+				fromTimestamp: 1000,
+				fromSequenceNumber: 0,
+				toTimestamp: 5000,
+				toSequenceNumber: 2147483647,
+			});
+		});
+
+		it('continues a range from the timestamp of the last delivered message', () => {
+			const query = {
+				fromTimestamp: 1000,
+				fromSequenceNumber: 5,
+				toTimestamp: 5000,
+				toSequenceNumber: 0,
+			};
+			const resumption = new QueryResumption(QueryType.Range, query);
+			resumption.onDelivered(first);
+			// the sequence number of the query is kept while the query has not moved on
+			expect(resumption.getRemainingQuery().query).toEqual(query);
+
+			resumption.onDelivered(second);
+			expect(resumption.getRemainingQuery().query).toEqual({
+				...query,
+				fromTimestamp: 2000,
+				fromSequenceNumber: 0,
+			});
+		});
+
+		it('tells the delivered messages apart from the ones sharing their timestamp', () => {
+			const resumption = new QueryResumption(QueryType.From, {
+				fromTimestamp: 0,
+			});
+			expect(resumption.isDelivered(first)).toBe(false);
+
+			resumption.onDelivered(first);
+			resumption.onDelivered(second);
+			const otherPublisherMessage = createTestStreamMessage({
+				timestamp: 2000,
+				publisherId: '0x0000000000000000000000000000000000000002',
+			});
+			expect(resumption.isDelivered(first)).toBe(true);
+			expect(resumption.isDelivered(second)).toBe(true);
+			expect(resumption.isDelivered(otherPublisherMessage)).toBe(false);
+			expect(
+				resumption.isDelivered(createTestStreamMessage({ timestamp: 3000 }))
+			).toBe(false);
+		});
+
+		it('completes the query of the latest messages once all of them are delivered', () => {
+			const resumption = new QueryResumption(QueryType.Last, { count: 2 });
+			resumption.onDelivered(first);
+			expect(resumption.isComplete()).toBe(false);
+			resumption.onDelivered(third);
+			expect(resumption.isComplete()).toBe(true);
+		});
+	});
+
+	describe('query', () => {
+		it('reports the progress of the query to the callback', async () => {
+			const messages = createMessages([1000, 2000, 3000]);
+			const fetchHttpStream = jest.fn().mockReturnValue(toStream(messages));
+			const { queries, eventEmitter } = createQueries({ fetchHttpStream });
+			const onProgress = jest.fn();
+
+			const received = await collectStreamMessages(
+				await queries.query(STREAM_PART_ID, {
+					from: { timestamp: 1000 },
+					to: { timestamp: 3000 },
+					onProgress,
+				})
+			);
+
+			expect(received).toEqual(messages);
+			expect(onProgress).toHaveBeenLastCalledWith(
+				expect.objectContaining({
+					streamId: 'test-stream',
+					partition: 0,
+					queryType: QueryType.Range,
+					nodeUrl: NODE_URLS[0],
+					messagesReceived: messages.length,
+					done: true,
+				})
+			);
+			expect(eventEmitter.emit).toHaveBeenLastCalledWith(
+				'queryProgress',
+				onProgress.mock.lastCall[0]
+			);
+		});
+
+		it('reports the progress of a paged query to the callback', async () => {
+			const messages = createMessages([1000, 2000, 3000]);
+			const fetchHttpStream = jest.fn().mockReturnValue(toStream(messages));
+			const { queries } = createQueries({ fetchHttpStream });
+			const onProgress = jest.fn();
+
+			const pages = [];
+			for await (const page of queries.queryPages(
+				STREAM_PART_ID,
+				{ last: 3, onProgress },
+				{ pageSize: 2 }
+			)) {
+				pages.push(page);
+			}
+
+			expect(pages.map((page) => page.messages.length)).toEqual([2, 1]);
+			expect(onProgress).toHaveBeenLastCalledWith(
+				expect.objectContaining({
+					queryType: QueryType.Last,
+					messagesReceived: messages.length,
+					done: true,
+				})
+			);
+		});
+	});
+
+	describe('queryPages', () => {
+		it('continues the query of the latest messages up to the end of the timestamp without a sequence number', async () => {
+			const messages = createMessages([1000, 2000, 3000]);
+			const { queries } = createQueries({});
+			const query = jest
+				.spyOn(queries, 'query')
+				.mockImplementation(async () => toMessageStream(messages));
+			const options = { last: 3, before: { timestamp: 3000 } };
+
+			const firstPage = await queries
+				.queryPages(STREAM_PART_ID, options, { pageSize: 2 })
+				.next();
+			const { cursor } = firstPage.value as QueryPage;
+			await queries
+				.queryPages(STREAM_PART_ID, options, { pageSize: 2, cursor })
+				.next();
+
+			expect(query).toHaveBeenLastCalledWith(STREAM_PART_ID, {
+				from: { timestamp: 2000, sequenceNumber: 0 },
+				to: { timestamp: 3000, sequenceNumber: 2147483647 },
+			});
+		});
+	});
+
+	describe('estimate', () => {
+		it('asks a node for the size of the query result and prices it', async () => {
+			const fetchJson = jest
+				.fn()
+				.mockResolvedValue({ messages: 10, bytes: 2000 });
+			const { queries } = createQueries(
+				{ fetchJson: fetchJson as HttpUtil['fetchJson'] },
+				{},
+				{
+					getPrice: async () => BigInt(1000),
+					getQueryBalance: async () => BigInt(5000),
+				}
+			);
+			const filter = [{ path: '$.sensor.name', eq: 'kitchen' }];
+
+			const estimate = await queries.estimate(STREAM_PART_ID, {
+				last: 10,
+				filter,
+			});
+
+			expect(fetchJson).toHaveBeenCalledTimes(1);
+			const url = new URL(fetchJson.mock.calls[0][0]);
+			expect(`${url.origin}${url.pathname}`).toBe(
+				`${NODE_URLS[0]}/streams/test-stream/data/partitions/0/last/estimate`
+			);
+			expect(Object.fromEntries(url.searchParams)).toEqual({
+				count: '10',
+				filter: JSON.stringify(filter),
+				format: 'raw',
+			});
+			expect(estimate).toEqual({
+				messages: 10,
+				bytes: 2000,
+				// 2000 bytes at the price of 1000 with the read fee multiplier of 0.05
+				cost: BigInt(100000),
+				balance: BigInt(5000),
+			});
+		});
+
+		it('rejects invalid filters without asking a node', async () => {
+			const fetchJson = jest.fn();
+			const { queries } = createQueries({ fetchJson });
+
+			await expect(
+				queries.estimate(STREAM_PART_ID, {
+					last: 10,
+					filter: [{ path: '$.sensor..name', eq: 'kitchen' }],
+				})
+			).rejects.toThrow('invalid query filter path');
+			expect(fetchJson).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('aggregate', () => {
+		/**
+		 * A node responding with the lines, parsed as the caller asks for.
+		 */
+		const respondWithLines = (lines: string[]) =>
+			jest.fn(
+				async (
+					_url: string,
+					_abortController?: AbortController,
+					_onBytes?: (bytes: number) => void,
+					parseLine?: (line: string) => unknown
+				) => ({
+					consensus: [],
+					messages: (async function* () {
+						for (const line of lines) {
+							yield parseLine!(line);
+						}
+					})(),
+				})
+			);
+
+		it('queries a node for the aggregates and parses the buckets', async () => {
+			const fetchQueryResponse = respondWithLines([
+				'{"timestamp":1000,"count":2,"avg":21.5}',
+				'{"timestamp":2000,"count":1,"avg":19}',
+			]);
+			const { queries } = createQueries({
+				fetchQueryResponse: fetchQueryResponse as any,
+			});
+			const filter = [{ path: '$.sensor.name', eq: 'kitchen' }];
+
+			const buckets = [];
+			for await (const bucket of queries.aggregate(STREAM_PART_ID, {
+				from: { timestamp: 1000 },
+				to: { timestamp: 3000, sequenceNumber: 5 },
+				field: '$.temperature',
+				interval: 1000,
+				functions: [AggregateFunction.Count, AggregateFunction.Avg],
+				filter,
+			})) {
+				buckets.push(bucket);
+			}
+
+			expect(buckets).toEqual([
+				{ timestamp: 1000, count: 2, avg: 21.5 },
+				{ timestamp: 2000, count: 1, avg: 19 },
+			]);
+			expect(fetchQueryResponse).toHaveBeenCalledTimes(1);
+			const url = new URL(fetchQueryResponse.mock.calls[0][0]);
+			expect(`${url.origin}${url.pathname}`).toBe(
+				`${NODE_URLS[0]}/streams/test-stream/data/partitions/0/aggregate`
+			);
+			expect(Object.fromEntries(url.searchParams)).toEqual({
+				fromTimestamp: '1000',
+				fromSequenceNumber: '0',
+				toTimestamp: '3000',
+				toSequenceNumber: '5',
+				field: '$.temperature',
+				interval: '1000',
+				functions: 'count,avg',
+				filter: JSON.stringify(filter),
+				format: 'raw',
+			});
+		});
+
+		it('computes all the aggregates unless some are asked for', async () => {
+			const fetchQueryResponse = respondWithLines([]);
+			const { queries } = createQueries({
+				fetchQueryResponse: fetchQueryResponse as any,
+			});
+
+			await queries
+				.aggregate(STREAM_PART_ID, {
+					from: { timestamp: 1000 },
+					to: { timestamp: 3000 },
+					field: '$.temperature',
+					interval: 1000,
+				})
+				.next();
+
+			const url = new URL(fetchQueryResponse.mock.calls[0][0]);
+			expect(url.searchParams.get('functions')).toBe('count,sum,min,max,avg');
+			expect(url.searchParams.has('filter')).toBe(false);
+		});
+
+		it('rejects an interval which is not positive', async () => {
+			const fetchQueryResponse = respondWithLines([]);
+			const { queries } = createQueries({
+				fetchQueryResponse: fetchQueryResponse as any,
+			});
+
+			await expect(
+				queries
+					.aggregate(STREAM_PART_ID, {
+						from: { timestamp: 1000 },
+						to: { timestamp: 3000 },
+						field: '$.temperature',
+						interval: 0,
+					})
+					.next()
+			).rejects.toThrow('interval must be a positive number: 0');
+			expect(fetchQueryResponse).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('failover', () => {
+		const fetchWithFailover = (
+			queries: Queries,
+			queryType: QueryType,
+			query: Record<string, number>,
+			cancellation = new QueryCancellation({})
+		): AsyncGenerator<StreamMessage> =>
+			queries['fetchWithFailover'](
+				queryType,
+				STREAM_PART_ID,
+				query,
+				'test',
+				cancellation,
+				createProgress(queryType)
+			);
+
+		it('continues the query on another node after the last delivered message', async () => {
+			const messages = createMessages([1000, 2000, 3000, 4000]);
+			const fetchHttpStream = jest
+				.fn()
+				.mockReturnValueOnce(
+					toStream(messages.slice(0, 2), new Error('connection reset'))
+				)
+				// the node returns again the messages at the timestamp it continues from
+				.mockReturnValueOnce(toStream(messages.slice(1)));
+			const { queries, nodeManager } = createQueries({ fetchHttpStream });
+
+			const received = await collectMessages(
+				fetchWithFailover(queries, QueryType.Range, {
+					fromTimestamp: 1000,
+					fromSequenceNumber: 0,
+					toTimestamp: 4000,
+					toSequenceNumber: 0,
+				})
+			);
+
+			expect(received).toEqual(messages);
+			expect(fetchHttpStream).toHaveBeenCalledTimes(2);
+			const [firstUrl] = fetchHttpStream.mock.calls[0];
+			const [secondUrl] = fetchHttpStream.mock.calls[1];
+			expect(firstUrl).toStartWith(`${NODE_URLS[0]}/streams/`);
+			expect(secondUrl).toStartWith(`${NODE_URLS[1]}/streams/`);
+			expect(new URL(secondUrl).searchParams.get('fromTimestamp')).toBe('2000');
+			expect(nodeManager.onNodeFailure).toHaveBeenCalledWith(
+				NODE_URLS[0],
+				undefined
+			);
+		});
+
+		it('passes the delay a rate limited node asked for', async () => {
+			const messages = createMessages([1000]);
+			const fetchHttpStream = jest
+				.fn()
+				.mockReturnValueOnce(
+					toStream(
+						[],
+						new RateLimitedError('too many queries', undefined, {
+							retryAfter: 5000,
+						})
+					)
+				)
+				.mockReturnValueOnce(toStream(messages));
+			const { queries, nodeManager } = createQueries({ fetchHttpStream });
+
+			const received = await collectMessages(
+				fetchWithFailover(queries, QueryType.Last, { count: 1 })
+			);
+
+			expect(received).toEqual(messages);
+			expect(nodeManager.onNodeFailure).toHaveBeenCalledWith(
+				NODE_URLS[0],
+				5000
+			);
+		});
+
+		it('fails once all the retries are used', async () => {
+			const fetchHttpStream = jest.fn(() =>
+				toStream([], new Error('connection refused'))
+			);
+			const { queries, nodeManager } = createQueries({ fetchHttpStream });
+
+			await expect(
+				collectMessages(
+					fetchWithFailover(queries, QueryType.Last, { count: 1 })
+				)
+			).rejects.toThrow('connection refused');
+			expect(fetchHttpStream).toHaveBeenCalledTimes(NODE_URLS.length);
+			expect(nodeManager.onNodeFailure).toHaveBeenCalledTimes(NODE_URLS.length);
+		});
+
+		it('does not retry a query the node rejected', async () => {
+			const fetchHttpStream = jest.fn(() =>
+				toStream([], new ValidationError('invalid query'))
+			);
+			const { queries, nodeManager } = createQueries({ fetchHttpStream });
+
+			await expect(
+				collectMessages(
+					fetchWithFailover(queries, QueryType.Last, { count: 1 })
+				)
+			).rejects.toThrow('invalid query');
+			expect(fetchHttpStream).toHaveBeenCalledTimes(1);
+			expect(nodeManager.onNodeFailure).not.toHaveBeenCalled();
+		});
+
+		describe('auto-stake', () => {
+			const insufficientStake = () =>
+				new InsufficientQueryStakeError(
+					'insufficient query stake',
+					undefined,
+					JSON.stringify({ requiredStake: '100', balance: '40' })
+				);
+
+			it('stakes the missing query balance and retries the query on the same node', async () => {
+				const messages = createMessages([1000, 2000]);
+				const fetchHttpStream = jest
+					.fn()
+					.mockReturnValueOnce(toStream([], insufficientStake()))
+					.mockReturnValueOnce(toStream(messages));
+				const queryStake = jest.fn(async () => undefined);
+				const { queries, nodeManager } = createQueries(
+					{ fetchHttpStream },
+					{ autoStake: true },
+					{ queryStake: queryStake as LogStoreRegistry['queryStake'] }
+				);
+
+				const received = await collectMessages(
+					fetchWithFailover(queries, QueryType.Last, { count: 2 })
+				);
+
+				expect(received).toEqual(messages);
+				expect(queryStake).toHaveBeenCalledWith(BigInt(60));
+				expect(fetchHttpStream).toHaveBeenCalledTimes(2);
+				expect(fetchHttpStream.mock.calls[1][0]).toStartWith(
+					`${NODE_URLS[0]}/streams/`
+				);
+				expect(nodeManager.onNodeFailure).not.toHaveBeenCalled();
+			});
+
+			it('stakes once for a query', async () => {
+				const fetchHttpStream = jest.fn(() =>
+					toStream([], insufficientStake())
+				);
+				const queryStake = jest.fn(async () => undefined);
+				const { queries } = createQueries(
+					{ fetchHttpStream },
+					{ autoStake: true },
+					{ queryStake: queryStake as LogStoreRegistry['queryStake'] }
+				);
+
+				await expect(
+					collectMessages(
+						fetchWithFailover(queries, QueryType.Last, { count: 2 })
+					)
+				).rejects.toBeInstanceOf(InsufficientQueryStakeError);
+				expect(queryStake).toHaveBeenCalledTimes(1);
+				expect(fetchHttpStream).toHaveBeenCalledTimes(2);
+			});
+
+			it('does not stake unless enabled', async () => {
+				const fetchHttpStream = jest.fn(() =>
+					toStream([], insufficientStake())
+				);
+				const queryStake = jest.fn(async () => undefined);
+				const { queries } = createQueries(
+					{ fetchHttpStream },
+					{},
+					{ queryStake: queryStake as LogStoreRegistry['queryStake'] }
+				);
+
+				await expect(
+					collectMessages(
+						fetchWithFailover(queries, QueryType.Last, { count: 2 })
+					)
+				).rejects.toBeInstanceOf(InsufficientQueryStakeError);
+				expect(queryStake).not.toHaveBeenCalled();
+				expect(fetchHttpStream).toHaveBeenCalledTimes(1);
+			});
+		});
+	});
+
+	describe('fan-out', () => {
+		const fetchWithFanOut = (
+			queries: Queries,
+			cancellation = new QueryCancellation({}),
+			fanOut = NODE_URLS.length
+		): AsyncGenerator<StreamMessage> =>
+			queries['fetchWithFanOut'](
+				QueryType.Last,
+				STREAM_PART_ID,
+				{ count: 3 },
+				fanOut,
+				cancellation,
+				createProgress(QueryType.Last)
+			);
+
+		/**
+		 * Responds to the query of each node with the response of the same index.
+		 */
+		const respondWith = (responses: (StreamMessage[] | Error)[]) =>
+			jest.fn(async (url: string, _abortController: AbortController) => {
+				const response = responses[NODE_URLS.indexOf(new URL(url).origin)];
+				if (response instanceof Error) {
+					throw response;
+				}
+				return createResponse(response);
+			});
+
+		it('returns the result of the majority and reports the divergent nodes', async () => {
+			const messages = createMessages([1000, 2000, 3000]);
+			const divergentMessages = createMessages([1000, 2000]);
+			const fetchQueryResponse = respondWith([
+				messages,
+				divergentMessages,
+				messages,
+			]);
+			const { queries, eventEmitter } = createQueries({
+				fetchQueryResponse:
+					fetchQueryResponse as HttpUtil['fetchQueryResponse'],
+			});
+
+			const received = await collectMessages(fetchWithFanOut(queries));
+
+			expect(received).toEqual(messages);
+			expect(eventEmitter.emit).toHaveBeenCalledWith('queryDivergence', {
+				streamId: 'test-stream',
+				partition: 0,
+				queryType: QueryType.Last,
+				hash: hashMessages(messages),
+				nodeUrls: NODE_URLS,
+				divergentNodes: [
+					{
+						nodeUrl: NODE_URLS[1],
+						hash: hashMessages(divergentMessages),
+						error: undefined,
+					},
+				],
+			});
+			// the responses which are not read are discarded
+			const [, divergentAbortController] = fetchQueryResponse.mock.calls[1];
+			expect(divergentAbortController.signal.aborted).toBe(true);
+		});
+
+		it('reports the failed nodes as divergent', async () => {
+			const messages = createMessages([1000, 2000, 3000]);
+			const { queries, nodeManager, eventEmitter } = createQueries({
+				fetchQueryResponse: respondWith([
+					new Error('connection refused'),
+					messages,
+					messages,
+				]) as HttpUtil['fetchQueryResponse'],
+			});
+
+			const received = await collectMessages(fetchWithFanOut(queries));
+
+			expect(received).toEqual(messages);
+			expect(nodeManager.onNodeFailure).toHaveBeenCalledWith(
+				NODE_URLS[0],
+				undefined
+			);
+			expect(eventEmitter.emit).toHaveBeenCalledWith(
+				'queryDivergence',
+				expect.objectContaining({
+					divergentNodes: [
+						{
+							nodeUrl: NODE_URLS[0],
+							hash: undefined,
+							error: 'connection refused',
+						},
+					],
+				})
+			);
+		});
+
+		it('fails if no result has the majority', async () => {
+			const { queries, eventEmitter } = createQueries({
+				fetchQueryResponse: respondWith([
+					createMessages([1000]),
+					createMessages([1000, 2000]),
+					new Error('connection refused'),
+				]) as HttpUtil['fetchQueryResponse'],
+			});
+
+			await expect(collectMessages(fetchWithFanOut(queries))).rejects.toThrow(
+				'No majority among 3 nodes for the query'
+			);
+			expect(eventEmitter.emit).not.toHaveBeenCalled();
+		});
+
+		it('fails if fewer nodes than the fan-out serve the query', async () => {
+			const fetchQueryResponse = respondWith([]);
+			const { queries } = createQueries({
+				fetchQueryResponse:
+					fetchQueryResponse as HttpUtil['fetchQueryResponse'],
+			});
+
+			const error = await collectMessages(
+				fetchWithFanOut(queries, undefined, NODE_URLS.length + 1)
+			).catch((err) => err);
+
+			expect(error).toBeInstanceOf(QueryFanOutError);
+			expect(error.fanOut).toBe(NODE_URLS.length + 1);
+			expect(error.available).toBe(NODE_URLS.length);
+			expect(fetchQueryResponse).not.toHaveBeenCalled();
+		});
+
+		it('fails if the messages do not match the hash of the majority', async () => {
+			const messages = createMessages([1000, 2000, 3000]);
+			const fetchQueryResponse = jest.fn(async () =>
+				createResponse(messages.slice(1), hashMessages(messages))
+			);
+			const { queries } = createQueries({
+				fetchQueryResponse:
+					fetchQueryResponse as HttpUtil['fetchQueryResponse'],
+			});
+
+			await expect(collectMessages(fetchWithFanOut(queries))).rejects.toThrow(
+				'does not match the consensus hash'
+			);
+		});
+	});
+
+	describe('queryAllPartitions', () => {
+		const STREAM_PART_IDS = [0, 1, 2].map((partition) =>
+			toStreamPartID(toStreamID('test-stream'), partition)
+		);
+		const partitions = [
+			[
+				createTestStreamMessage({ partition: 0, timestamp: 1000 }),
+				createTestStreamMessage({ partition: 0, timestamp: 4000 }),
+			],
+			[
+				createTestStreamMessage({ partition: 1, timestamp: 2000 }),
+				createTestStreamMessage({
+					partition: 1,
+					timestamp: 4000,
+					sequenceNumber: 1,
+				}),
+				createTestStreamMessage({ partition: 1, timestamp: 5000 }),
+			],
+			[createTestStreamMessage({ partition: 2, timestamp: 3000 })],
+		];
+
+		/**
+		 * Queries the partitions, each of them responding with its messages.
+		 */
+		const queryPartitions = (
+			queries: Queries,
+			options: QueryOptions
+		): Promise<MessageStream> => {
+			jest
+				.spyOn(queries, 'query')
+				.mockImplementation(async (streamPartId) =>
+					toMessageStream(partitions[STREAM_PART_IDS.indexOf(streamPartId)])
+				);
+			return queries.queryAllPartitions(STREAM_PART_IDS, options);
+		};
+
+		it('merges the partitions in the order of the timestamps and sequence numbers', async () => {
+			const { queries } = createQueries({});
+
+			const received = await collectStreamMessages(
+				await queryPartitions(queries, { from: { timestamp: 0 } })
+			);
+
+			expect(received).toEqual([
+				partitions[0][0],
+				partitions[1][0],
+				partitions[2][0],
+				partitions[0][1],
+				partitions[1][1],
+				partitions[1][2],
+			]);
+		});
+
+		it('delivers the latest messages across all the partitions', async () => {
+			const { queries } = createQueries({});
+
+			const received = await collectStreamMessages(
+				await queryPartitions(queries, { last: 3 })
+			);
+
+			expect(received).toEqual([
+				partitions[0][1],
+				partitions[1][1],
+				partitions[1][2],
+			]);
+		});
+
+		it('reads all the partitions when fewer of them may be open at a time', async () => {
+			const { queries } = createQueries({}, { partitionConcurrency: 1 });
+
+			const received = await collectStreamMessages(
+				await queryPartitions(queries, { from: { timestamp: 0 } })
+			);
+
+			expect(received).toHaveLength(6);
+			expect(queries.query).toHaveBeenCalledTimes(STREAM_PART_IDS.length);
+		});
+
+		it('fails if the query of a partition fails', async () => {
+			const { queries } = createQueries({});
+			jest.spyOn(queries, 'query').mockImplementation(async (streamPartId) => {
+				if (streamPartId === STREAM_PART_IDS[1]) {
+					throw new Error('connection refused');
+				}
+				return toMessageStream([]);
+			});
+
+			await expect(
+				queries.queryAllPartitions(STREAM_PART_IDS, { last: 1 })
+			).rejects.toThrow('connection refused');
+		});
+	});
+
+	describe('subscribeWithHistory', () => {
+		/**
+		 * A subscription which has buffered the messages.
+		 */
+		const createSubscription = (messages: StreamMessage[]) =>
+			Object.assign(toMessageStream(messages), {
+				unsubscribe: jest.fn(async () => undefined),
+			});
+
+		const subscribeWithHistory = (
+			queries: Queries,
+			subscription: ReturnType<typeof createSubscription>,
+			history: StreamMessage[],
+			options: QueryFromOptions = { from: { timestamp: 0 } }
+		): Promise<MessageStream> => {
+			jest
+				.spyOn(queries, 'query')
+				.mockImplementation(async () => toMessageStream(history));
+			return queries.subscribeWithHistory(
+				STREAM_PART_ID,
+				async () => subscription as unknown as Subscription,
+				options
+			);
+		};
+
+		it('skips the live messages the history already delivered', async () => {
+			const now = Date.now();
+			const history = createMessages([now - 120000, now - 30000]);
+			const live = createTestStreamMessage({ timestamp: now + 1000 });
+			const subscription = createSubscription([history[1], live]);
+			const { queries } = createQueries({});
+
+			const received = await collectStreamMessages(
+				await subscribeWithHistory(queries, subscription, history)
+			);
+
+			expect(received).toEqual([...history, live]);
+			expect(subscription.unsubscribe).toHaveBeenCalledTimes(1);
+		});
+
+		it('delivers the messages published during the query of the history after it', async () => {
+			const now = Date.now();
+			const history = createMessages([now - 1000]);
+			// published after subscribing, while the history was queried
+			const published = [
+				createTestStreamMessage({ timestamp: now + 100 }),
+				createTestStreamMessage({
+					timestamp: now + 100,
+					publisherId: '0x0000000000000000000000000000000000000002',
+				}),
+				createTestStreamMessage({ timestamp: now + 200 }),
+			];
+			const subscription = createSubscription(published);
+			const { queries } = createQueries({});
+
+			const received = await collectStreamMessages(
+				// the query returned the first of them
+				await subscribeWithHistory(queries, subscription, [
+					...history,
+					published[0],
+				])
+			);
+
+			expect(received).toEqual([...history, ...published]);
+		});
+
+		it('filters the live messages like the query', async () => {
+			const history = [
+				createTestStreamMessage({
+					timestamp: 1000,
+					content: { sensor: 'kitchen' },
+				}),
+			];
+			const live = [
+				createTestStreamMessage({
+					timestamp: Date.now() + 100,
+					content: { sensor: 'garage' },
+				}),
+				createTestStreamMessage({
+					timestamp: Date.now() + 200,
+					content: { sensor: 'kitchen' },
+				}),
+			];
+			const { queries } = createQueries({});
+
+			const received = await collectStreamMessages(
+				await subscribeWithHistory(queries, createSubscription(live), history, {
+					from: { timestamp: 0 },
+					filter: [{ path: '$.sensor', eq: 'kitchen' }],
+				})
+			);
+
+			expect(received).toEqual([...history, live[1]]);
+		});
+
+		it('unsubscribes if the query of the history fails', async () => {
+			const subscription = createSubscription([]);
+			const { queries } = createQueries({});
+			jest
+				.spyOn(queries, 'query')
+				.mockRejectedValue(new ValidationError('invalid query'));
+
+			await expect(
+				queries.subscribeWithHistory(
+					STREAM_PART_ID,
+					async () => subscription as unknown as Subscription,
+					{ from: { timestamp: 0 } }
+				)
+			).rejects.toThrow('invalid query');
+			expect(subscription.unsubscribe).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('subscribeWithGapFill', () => {
+		/**
+		 * The messages of a message chain, each referring to the previous one.
+		 */
+		const createChain = (timestamps: number[]): StreamMessage[] =>
+			timestamps.map((timestamp, i) =>
+				createTestStreamMessage({
+					timestamp,
+					prevMsgRef: i > 0 ? new MessageRef(timestamps[i - 1], 0) : null,
+				})
+			);
+
+		/**
+		 * A subscription delivering the messages, which stays open until it is unsubscribed.
+		 */
+		const createSubscription = (messages: StreamMessage[]) => {
+			let onUnsubscribe: () => void;
+			const unsubscribed = new Promise<void>((resolve) => {
+				onUnsubscribe = resolve;
+			});
+			const messageStream = new MessageStream();
+			messageStream.pull(
+				(async function* (): AsyncGenerator<StreamMessage> {
+					for (const message of messages) {
+						yield message;
+					}
+					await unsubscribed;
+				})()
+			);
+			return Object.assign(messageStream, {
+				unsubscribe: jest.fn(async () => onUnsubscribe()),
+			});
+		};
+
+		const subscribeWithGapFill = (
+			queries: Queries,
+			subscription: ReturnType<typeof createSubscription>,
+			maxGapWait: number
+		): Promise<MessageStream> =>
+			queries.subscribeWithGapFill(
+				STREAM_PART_ID,
+				async () => subscription as unknown as Subscription,
+				{ maxGapWait }
+			);
+
+		const readMessages = async (
+			messageStream: MessageStream,
+			count: number
+		): Promise<StreamMessage[]> => {
+			const messages: StreamMessage[] = [];
+			for await (const message of messageStream) {
+				messages.push(toStreamMessage(message));
+				if (messages.length >= count) {
+					break;
+				}
+			}
+			return messages;
+		};
+
+		it('queries the missing messages before delivering the later ones', async () => {
+			const chain = createChain([1000, 2000, 3000, 4000]);
+			const { queries, eventEmitter } = createQueries({});
+			const range = jest
+				.spyOn(queries, 'range')
+				.mockImplementation(async () => toMessageStream(chain.slice(1, 3)));
+			const subscription = createSubscription([chain[0], chain[3]]);
+
+			const received = await readMessages(
+				await subscribeWithGapFill(queries, subscription, 5000),
+				chain.length
+			);
+
+			expect(received).toEqual(chain);
+			expect(range).toHaveBeenCalledTimes(1);
+			expect(range.mock.calls[0][1]).toEqual({
+				fromTimestamp: 1000,
+				fromSequenceNumber: 0,
+				toTimestamp: 3000,
+				toSequenceNumber: 0,
+				publisherId: chain[0].getPublisherId(),
+				msgChainId: chain[0].getMsgChainId(),
+			});
+			expect(eventEmitter.emit).toHaveBeenCalledWith('queryGapFill', {
+				streamId: 'test-stream',
+				partition: 0,
+				publisherId: chain[0].getPublisherId(),
+				msgChainId: chain[0].getMsgChainId(),
+				from: { timestamp: 1000, sequenceNumber: 0 },
+				to: { timestamp: 3000, sequenceNumber: 0 },
+				filledCount: 2,
+				error: undefined,
+			});
+			expect(subscription.unsubscribe).toHaveBeenCalledTimes(1);
+		});
+
+		it('delivers the later messages once the missing ones are not found in time', async () => {
+			const chain = createChain([1000, 2000, 3000]);
+			const { queries, eventEmitter } = createQueries({});
+			jest
+				.spyOn(queries, 'range')
+				.mockImplementation(async () => toMessageStream([]));
+			const subscription = createSubscription([chain[0], chain[2]]);
+
+			const received = await readMessages(
+				await subscribeWithGapFill(queries, subscription, 500),
+				2
+			);
+
+			expect(received).toEqual([chain[0], chain[2]]);
+			expect(eventEmitter.emit).toHaveBeenCalledWith(
+				'queryGapFill',
+				expect.objectContaining({
+					filledCount: 0,
+					error: 'Missing messages were not found within 500ms',
+				})
+			);
+		});
+
+		it('unsubscribes when the stream is ended during a gap fill', async () => {
+			const chain = createChain([1000, 2000, 3000, 4000]);
+			const { queries } = createQueries({});
+			const range = jest
+				.spyOn(queries, 'range')
+				.mockImplementation(async () => toMessageStream(chain.slice(1, 3)));
+			const subscription = createSubscription([chain[0], chain[3]]);
+
+			const received = await readMessages(
+				await subscribeWithGapFill(queries, subscription, 5000),
+				2
+			);
+
+			expect(received).toEqual(chain.slice(0, 2));
+			expect(range).toHaveBeenCalledTimes(1);
+			expect(subscription.unsubscribe).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('cancellation', () => {
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		it('is cancelled at once if the signal is already aborted', () => {
+			const abortController = new AbortController();
+			abortController.abort();
+
+			const cancellation = new QueryCancellation({
+				signal: abortController.signal,
+			});
+
+			expect(cancellation.error).toBeInstanceOf(QueryCancelledError);
+			expect(cancellation.error?.reason).toBe('aborted');
+		});
+
+		it('is cancelled when the signal is aborted', () => {
+			const abortController = new AbortController();
+			const cancellation = new QueryCancellation({
+				signal: abortController.signal,
+			});
+			const onCancel = jest.fn();
+			cancellation.onCancel(onCancel);
+			expect(cancellation.error).toBeUndefined();
+
+			abortController.abort();
+
+			expect(onCancel).toHaveBeenCalledTimes(1);
+			expect(cancellation.error?.reason).toBe('aborted');
+			expect(cancellation.error?.message).toBe('Query was cancelled: aborted');
+		});
+
+		it('is cancelled at the deadline', () => {
+			jest.useFakeTimers();
+			const cancellation = new QueryCancellation({
+				deadline: Date.now() + 1000,
+			});
+			const onCancel = jest.fn();
+			const removeListener = cancellation.onCancel(onCancel);
+
+			jest.advanceTimersByTime(999);
+			expect(cancellation.error).toBeUndefined();
+			jest.advanceTimersByTime(1);
+
+			expect(cancellation.error?.reason).toBe('deadline');
+			expect(onCancel).toHaveBeenCalledTimes(1);
+			removeListener();
+		});
+
+		it('is not cancelled after it is disposed', () => {
+			jest.useFakeTimers();
+			const abortController = new AbortController();
+			const cancellation = new QueryCancellation({
+				signal: abortController.signal,
+				deadline: Date.now() + 1000,
+			});
+
+			cancellation.dispose();
+			abortController.abort();
+			jest.advanceTimersByTime(1000);
+
+			expect(cancellation.error).toBeUndefined();
+		});
+
+		it('ends a query in progress without failing over', async () => {
+			const abortController = new AbortController();
+			const cancellation = new QueryCancellation({
+				signal: abortController.signal,
+			});
+			const [message] = createMessages([1000]);
+			// the node sends a message, then stays silent until the request is aborted
+			const fetchHttpStream = jest.fn(async function* (
+				_url: string,
+				requestAbortController: AbortController
+			): AsyncGenerator<StreamMessage> {
+				yield message;
+				await new Promise((_resolve, reject) =>
+					requestAbortController.signal.addEventListener('abort', () =>
+						reject(new Error('The operation was aborted'))
+					)
+				);
+			});
+			const { queries, nodeManager } = createQueries({
+				fetchHttpStream: fetchHttpStream as HttpUtil['fetchHttpStream'],
+			});
+			const messages = queries['fetchWithFailover'](
+				QueryType.From,
+				STREAM_PART_ID,
+				{ fromTimestamp: 0 },
+				'test',
+				cancellation,
+				createProgress(QueryType.From)
+			);
+
+			expect((await messages.next()).value).toBe(message);
+			const next = messages.next();
+			abortController.abort();
+
+			await expect(next).rejects.toBe(cancellation.error);
+			expect(fetchHttpStream).toHaveBeenCalledTimes(1);
+			expect(nodeManager.onNodeFailure).not.toHaveBeenCalled();
+		});
+	});
+});
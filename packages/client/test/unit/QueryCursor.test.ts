@@ -0,0 +1,106 @@
+import { Base64 } from 'js-base64';
+
+import {
+	createQueryFingerprint,
+	decodeQueryCursor,
+	encodeQueryCursor,
+	isCursorMessage,
+	QueryCursorPosition,
+} from '../../src/QueryCursor';
+
+const position: QueryCursorPosition = {
+	timestamp: 1000,
+	sequenceNumber: 2,
+	publisherId: '0x0000000000000000000000000000000000000001',
+	msgChainId: 'msgChain',
+	remaining: 5,
+};
+
+const query = {
+	from: { timestamp: 0, sequenceNumber: 0 },
+	to: { timestamp: 2000, sequenceNumber: 0 },
+};
+
+describe('QueryCursor', () => {
+	const fingerprint = createQueryFingerprint('stream#0', query);
+
+	it('decodes the position it encoded', () => {
+		expect(
+			decodeQueryCursor(encodeQueryCursor(fingerprint, position), fingerprint)
+		).toEqual(position);
+	});
+
+	it('decodes the position of a query without a remaining count', () => {
+		const { remaining: _remaining, ...withoutRemaining } = position;
+		expect(
+			decodeQueryCursor(
+				encodeQueryCursor(fingerprint, withoutRemaining),
+				fingerprint
+			)
+		).toEqual({ ...withoutRemaining, remaining: undefined });
+	});
+
+	it('encodes a URL safe string', () => {
+		expect(encodeQueryCursor(fingerprint, position)).toMatch(/^[\w-]+$/);
+	});
+
+	describe('createQueryFingerprint', () => {
+		it('does not depend on the order of the options', () => {
+			expect(
+				createQueryFingerprint('stream#0', {
+					to: { sequenceNumber: 0, timestamp: 2000 },
+					from: { sequenceNumber: 0, timestamp: 0 },
+				})
+			).toEqual(fingerprint);
+		});
+
+		it('differs for another stream part or query', () => {
+			expect(createQueryFingerprint('stream#1', query)).not.toEqual(
+				fingerprint
+			);
+			expect(
+				createQueryFingerprint('stream#0', {
+					...query,
+					filter: [{ path: '$.a', eq: 1 }],
+				})
+			).not.toEqual(fingerprint);
+		});
+	});
+
+	it('rejects a cursor of another query', () => {
+		const cursor = encodeQueryCursor(fingerprint, position);
+		expect(() =>
+			decodeQueryCursor(cursor, createQueryFingerprint('stream#1', query))
+		).toThrow('query cursor belongs to another query');
+	});
+
+	it('rejects invalid cursors', () => {
+		expect(() => decodeQueryCursor('not a cursor', fingerprint)).toThrow(
+			'invalid query cursor'
+		);
+		expect(() =>
+			decodeQueryCursor(Base64.encodeURI('{"foo":1}'), fingerprint)
+		).toThrow('invalid query cursor');
+		expect(() =>
+			decodeQueryCursor(
+				Base64.encodeURI(
+					JSON.stringify([1, 1000, 2, position.publisherId, 'msgChain', 5])
+				),
+				fingerprint
+			)
+		).toThrow('invalid query cursor');
+	});
+
+	it('matches the message at the position', () => {
+		const message = {
+			timestamp: 1000,
+			sequenceNumber: 2,
+			publisherId: position.publisherId.toUpperCase().replace('0X', '0x'),
+			msgChainId: 'msgChain',
+		};
+		expect(isCursorMessage(position, message as any)).toBe(true);
+		expect(
+			isCursorMessage(position, { ...message, sequenceNumber: 3 } as any)
+		).toBe(false);
+	});
+});
@@ -0,0 +1,124 @@
+import {
+	exportQueryRecords,
+	QueryRecord,
+	toCsv,
+	toNdjson,
+} from '../../src/QueryExport';
+
+const record: QueryRecord = {
+	streamId: 'stream',
+	streamPartition: 0,
+	timestamp: 1000,
+	sequenceNumber: 0,
+	publisherId: '0x0000000000000000000000000000000000000001',
+	msgChainId: 'msgChain',
+	signature: 'signature',
+	content: { sensor: 'kitchen', temperature: 21.5 },
+};
+
+async function* toAsync<T>(items: T[]): AsyncGenerator<T> {
+	for (const item of items) {
+		yield item;
+	}
+}
+
+const collect = async (chunks: AsyncIterable<string>): Promise<string> => {
+	let text = '';
+	for await (const chunk of chunks) {
+		text += chunk;
+	}
+	return text;
+};
+
+describe('QueryExport', () => {
+	describe('toNdjson', () => {
+		it('writes each record as a line of JSON', async () => {
+			const records = [record, { ...record, timestamp: 2000 }];
+			const text = await collect(toNdjson(toAsync(records)));
+			expect(text.split('\n')).toEqual([
+				JSON.stringify(records[0]),
+				JSON.stringify(records[1]),
+				'',
+			]);
+			expect(
+				text
+					.trim()
+					.split('\n')
+					.map((line) => JSON.parse(line))
+			).toEqual(records);
+		});
+
+		it('writes nothing for no records', async () => {
+			expect(await collect(toNdjson(toAsync([])))).toEqual('');
+		});
+	});
+
+	describe('toCsv', () => {
+		it('writes the default columns', async () => {
+			expect(await collect(toCsv(toAsync([record])))).toEqual(
+				'timestamp,sequenceNumber,publisherId,msgChainId,content\n' +
+					'1000,0,0x0000000000000000000000000000000000000001,msgChain,' +
+					'"{""sensor"":""kitchen"",""temperature"":21.5}"\n'
+			);
+		});
+
+		it('writes the values at the paths of the columns', async () => {
+			expect(
+				await collect(
+					toCsv(toAsync([record]), {
+						time: '$.timestamp',
+						temperature: '$.content.temperature',
+						missing: '$.content.humidity',
+					})
+				)
+			).toEqual('time,temperature,missing\n1000,21.5,\n');
+		});
+
+		it('escapes commas, quotes and line breaks', async () => {
+			const text = await collect(
+				toCsv(
+					toAsync([
+						{ content: 'a,b' },
+						{ content: 'say "hi"' },
+						{ content: 'line\nbreak' },
+						{ content: 'carriage\rreturn' },
+						{ content: null },
+					]),
+					{ 'the, content': '$.content' }
+				)
+			);
+			expect(text).toEqual(
+				'"the, content"\n' +
+					'"a,b"\n' +
+					'"say ""hi"""\n' +
+					'"line\nbreak"\n' +
+					'"carriage\rreturn"\n' +
+					'\n'
+			);
+		});
+	});
+
+	describe('exportQueryRecords', () => {
+		it('writes the format of the options', async () => {
+			expect(
+				await collect(
+					exportQueryRecords(toAsync([record]), { format: 'ndjson' })
+				)
+			).toEqual(`${JSON.stringify(record)}\n`);
+			expect(
+				await collect(
+					exportQueryRecords(toAsync([record]), {
+						format: 'csv',
+						columns: { time: '$.timestamp' },
+					})
+				)
+			).toEqual('time\n1000\n');
+		});
+
+		it('rejects unsupported formats', () => {
+			expect(() =>
+				exportQueryRecords(toAsync([record]), { format: 'xml' } as any)
+			).toThrow('unsupported export format: xml');
+		});
+	});
+});
@@ -0,0 +1,169 @@
+import {
+	getQueryFilterField,
+	matchesQueryFilters,
+	parseQueryFilterPath,
+	validateQueryFilters,
+} from '../../src/QueryFilter';
+
+const content = {
+	sensor: {
+		name: 'kitchen',
+		temperature: 21.5,
+		readings: [{ value: 1 }, { value: 2 }],
+		'dotted.key': true,
+		missing: null,
+	},
+};
+
+describe('QueryFilter', () => {
+	describe('parseQueryFilterPath', () => {
+		it('splits the path into its segments', () => {
+			expect(parseQueryFilterPath('$.sensor.readings[1].value')).toEqual([
+				'sensor',
+				'readings',
+				1,
+				'value',
+			]);
+		});
+
+		it('accepts a path without the leading $', () => {
+			expect(parseQueryFilterPath('sensor.name')).toEqual(['sensor', 'name']);
+		});
+
+		it('accepts quoted keys', () => {
+			expect(parseQueryFilterPath(`$.sensor['dotted.key']`)).toEqual([
+				'sensor',
+				'dotted.key',
+			]);
+			expect(parseQueryFilterPath('$.sensor["dotted.key"]')).toEqual([
+				'sensor',
+				'dotted.key',
+			]);
+		});
+
+		it('rejects invalid paths', () => {
+			expect(() => parseQueryFilterPath('$.sensor..name')).toThrow(
+				'invalid query filter path: $.sensor..name'
+			);
+			expect(() => parseQueryFilterPath('$.sensor[x]')).toThrow(
+				'invalid query filter path'
+			);
+		});
+	});
+
+	describe('getQueryFilterField', () => {
+		it('reads the field at the path', () => {
+			expect(
+				getQueryFilterField(content, ['sensor', 'readings', 0, 'value'])
+			).toEqual({ found: true, value: 1 });
+		});
+
+		it('tells an absent field apart from a field set to null', () => {
+			expect(getQueryFilterField(content, ['sensor', 'missing'])).toEqual({
+				found: true,
+				value: null,
+			});
+			expect(getQueryFilterField(content, ['sensor', 'absent'])).toEqual({
+				found: false,
+			});
+			expect(
+				getQueryFilterField(content, ['sensor', 'name', 'length'])
+			).toEqual({ found: false });
+		});
+	});
+
+	describe('matchesQueryFilters', () => {
+		it('compares with eq and ne', () => {
+			expect(
+				matchesQueryFilters(content, [{ path: '$.sensor.name', eq: 'kitchen' }])
+			).toBe(true);
+			expect(
+				matchesQueryFilters(content, [{ path: '$.sensor.name', eq: 'garage' }])
+			).toBe(false);
+			expect(
+				matchesQueryFilters(content, [{ path: '$.sensor.name', ne: 'kitchen' }])
+			).toBe(false);
+			expect(
+				matchesQueryFilters(content, [
+					{ path: '$.sensor.absent', ne: 'kitchen' },
+				])
+			).toBe(true);
+		});
+
+		it('compares numbers with the bounds', () => {
+			const path = '$.sensor.temperature';
+			expect(matchesQueryFilters(content, [{ path, gt: 21 }])).toBe(true);
+			expect(matchesQueryFilters(content, [{ path, gt: 21.5 }])).toBe(false);
+			expect(matchesQueryFilters(content, [{ path, gte: 21.5 }])).toBe(true);
+			expect(matchesQueryFilters(content, [{ path, lt: 21.5 }])).toBe(false);
+			expect(matchesQueryFilters(content, [{ path, lte: 21.5 }])).toBe(true);
+			expect(matchesQueryFilters(content, [{ path, gt: 20, lt: 22 }])).toBe(
+				true
+			);
+		});
+
+		it('compares strings with the bounds', () => {
+			const path = '$.sensor.name';
+			expect(matchesQueryFilters(content, [{ path, gt: 'garage' }])).toBe(true);
+			expect(matchesQueryFilters(content, [{ path, lte: 'garage' }])).toBe(
+				false
+			);
+		});
+
+		it('does not order values of different types', () => {
+			expect(
+				matchesQueryFilters(content, [
+					{ path: '$.sensor.temperature', gt: '1' },
+				])
+			).toBe(false);
+			expect(
+				matchesQueryFilters(content, [{ path: '$.sensor.name', lt: 1 }])
+			).toBe(false);
+			expect(
+				matchesQueryFilters(content, [{ path: '$.sensor.absent', lt: 1 }])
+			).toBe(false);
+		});
+
+		it('checks whether the field exists', () => {
+			expect(
+				matchesQueryFilters(content, [
+					{ path: '$.sensor.missing', exists: true },
+				])
+			).toBe(true);
+			expect(
+				matchesQueryFilters(content, [
+					{ path: '$.sensor.absent', exists: true },
+				])
+			).toBe(false);
+			expect(
+				matchesQueryFilters(content, [
+					{ path: '$.sensor.absent', exists: false },
+				])
+			).toBe(true);
+		});
+
+		it('requires all the filters to match', () => {
+			expect(
+				matchesQueryFilters(content, [
+					{ path: '$.sensor.name', eq: 'kitchen' },
+					{ path: '$.sensor.temperature', gt: 25 },
+				])
+			).toBe(false);
+			expect(matchesQueryFilters(content, [])).toBe(true);
+		});
+	});
+
+	describe('validateQueryFilters', () => {
+		it('rejects filters which are not an array', () => {
+			expect(() =>
+				validateQueryFilters({ path: '$.sensor.name' } as any)
+			).toThrow('query filter must be an array');
+		});
+
+		it('rejects invalid paths', () => {
+			expect(() => validateQueryFilters([{ path: '$.sensor..name' }])).toThrow(
+				'invalid query filter path'
+			);
+		});
+	});
+});
@@ -0,0 +1,183 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { ReportContractStruct, SystemReport } from '@logsn/protocol';
+import { toEthereumAddress } from '@streamr/utils';
+import { ethers } from 'ethers';
+
+import {
+	ReportRegistry,
+	ReportVerificationError,
+} from '../../src/registry/ReportRegistry';
+import { mockLoggerFactory } from '../test-utils/utils';
+
+jest.mock('../../src/Ethereum', () => ({
+	getStreamRegistryChainProviders: () => [{}],
+}));
+
+const REPORT_MANAGER_ADDRESS = '0x0000000000000000000000000000000000000020';
+
+const NODE_ADDRESS = '0x5e98df807C09a91557D8B3161f2D01852fb005B9';
+
+const PROOF_TIMESTAMP = 1687874700000;
+
+const REPORT_STRUCT: ReportContractStruct = {
+	id: '1687874606',
+	height: 1295,
+	treasury: 0,
+	streams: [
+		{
+			id: '0x19e7e376e7c213b7e7e7e46cc70a5dd086daff2a/heartbeat',
+			writeCapture: BigNumber.from('49462093025057900000000000'),
+			writeBytes: 49542,
+		},
+	],
+	consumers: [
+		{
+			id: '0x3c9ef7f26d7c1de4e67580cdb26a10f9b9a8b8c8',
+			readCapture: BigNumber.from('222839997642262000000000'),
+			readBytes: 4464,
+		},
+	],
+	nodes: [{ id: NODE_ADDRESS, amount: BigNumber.from(1000) }],
+	delegates: [
+		{
+			id: NODE_ADDRESS,
+			nodes: [{ id: NODE_ADDRESS, amount: BigNumber.from(1000) }],
+		},
+	],
+};
+
+interface ContractProof {
+	signer: string;
+	signature: string;
+	timestamp: BigNumber;
+}
+
+/**
+ * The proof of the report as stored by the contract, signed by the wallet at the timestamp.
+ */
+const createProof = async (
+	wallet: ethers.Wallet,
+	timestamp = PROOF_TIMESTAMP
+): Promise<ContractProof> => {
+	const proof = await SystemReport.fromContract(REPORT_STRUCT).toProof(
+		wallet,
+		timestamp
+	);
+	return {
+		signer: wallet.address,
+		signature: proof.signature,
+		timestamp: BigNumber.from(timestamp),
+	};
+};
+
+const createReportRegistry = (proofs: ContractProof[]) => {
+	const struct = {
+		...REPORT_STRUCT,
+		_reporter: NODE_ADDRESS,
+		_processed: true,
+	};
+	const contract = {
+		getReport: jest.fn(async (id: string) =>
+			id === struct.id ? struct : { id: '' }
+		),
+		getLastReport: jest.fn(async () => struct),
+		getProofOfReport: jest.fn(async () => proofs),
+	};
+	const contractFactory = { createReadContract: jest.fn(() => contract) };
+	const config = {
+		contracts: { logStoreReportManagerChainAddress: REPORT_MANAGER_ADDRESS },
+	};
+	const reportRegistry = new ReportRegistry(
+		contractFactory as any,
+		mockLoggerFactory(),
+		config as any
+	);
+	return { reportRegistry, contract, contractFactory };
+};
+
+describe('ReportRegistry', () => {
+	const wallet = new ethers.Wallet(ethers.utils.randomBytes(32));
+
+	it('reads the reports from the configured report manager', () => {
+		const { contractFactory } = createReportRegistry([]);
+
+		expect(contractFactory.createReadContract).toHaveBeenCalledWith(
+			toEthereumAddress(REPORT_MANAGER_ADDRESS),
+			expect.anything(),
+			expect.anything(),
+			'logStoreReportManager'
+		);
+	});
+
+	it('returns undefined for an unknown report', async () => {
+		const { reportRegistry, contract } = createReportRegistry([]);
+
+		expect(await reportRegistry.getReport('unknown')).toBeUndefined();
+		expect(contract.getProofOfReport).not.toHaveBeenCalled();
+	});
+
+	it('verifies the proofs of a report', async () => {
+		const proof = await createProof(wallet);
+		const { reportRegistry } = createReportRegistry([proof]);
+		const report = SystemReport.fromContract(REPORT_STRUCT);
+
+		const result = await reportRegistry.getReport(REPORT_STRUCT.id);
+
+		expect(result).toEqual(
+			expect.objectContaining({
+				reporter: toEthereumAddress(NODE_ADDRESS),
+				processed: true,
+			})
+		);
+		expect(result!.report.toHash()).toBe(report.toHash());
+		expect(result!.proofs).toHaveLength(1);
+		expect(result!.proofs[0]).toEqual(
+			expect.objectContaining({
+				address: toEthereumAddress(wallet.address),
+				hash: report.toHash(),
+				toth: report.toHash(PROOF_TIMESTAMP),
+				timestamp: PROOF_TIMESTAMP,
+				signature: proof.signature,
+			})
+		);
+	});
+
+	it('verifies the proofs of the last report', async () => {
+		const { reportRegistry } = createReportRegistry([
+			await createProof(wallet),
+		]);
+
+		const result = await reportRegistry.getLastReport();
+
+		expect(result!.report.toJSON()).toEqual(
+			SystemReport.fromContract(REPORT_STRUCT).toJSON()
+		);
+		expect(result!.proofs[0].address).toBe(toEthereumAddress(wallet.address));
+	});
+
+	it('rejects a proof signed for another time than its timestamp', async () => {
+		const proof = await createProof(wallet);
+		const { reportRegistry } = createReportRegistry([
+			{ ...proof, timestamp: BigNumber.from(PROOF_TIMESTAMP + 1) },
+		]);
+
+		const err = await reportRegistry
+			.getReport(REPORT_STRUCT.id)
+			.catch((e) => e);
+
+		expect(err).toBeInstanceOf(ReportVerificationError);
+		expect(err.reportId).toBe(REPORT_STRUCT.id);
+		expect(err.signer).toBe(toEthereumAddress(wallet.address));
+	});
+
+	it('rejects a proof signed by another node than its signer', async () => {
+		const other = new ethers.Wallet(ethers.utils.randomBytes(32));
+		const { reportRegistry } = createReportRegistry([
+			{ ...(await createProof(other)), signer: wallet.address },
+		]);
+
+		await expect(reportRegistry.getLastReport()).rejects.toBeInstanceOf(
+			ReportVerificationError
+		);
+	});
+});
@@ -0,0 +1,87 @@
+import { SessionToken } from '@logsn/protocol';
+import { ethers } from 'ethers';
+
+import { SessionTokenManager } from '../../src/SessionTokenManager';
+import { mockLoggerFactory } from '../test-utils/utils';
+
+const SESSION_TOKEN_TTL = 60 * 1000;
+
+const createSessionTokenManager = () => {
+	const wallet = new ethers.Wallet(ethers.utils.randomBytes(32));
+	const authentication = {
+		getAddress: async () => wallet.address.toLowerCase(),
+		createMessageSignature: jest.fn((message: string) =>
+			wallet.signMessage(message)
+		),
+	};
+	const config = { queries: { sessionTokenTtl: SESSION_TOKEN_TTL } };
+	const sessionTokenManager = new SessionTokenManager(
+		authentication as any,
+		config as any,
+		mockLoggerFactory()
+	);
+	return { sessionTokenManager, authentication, wallet };
+};
+
+describe('SessionTokenManager', () => {
+	beforeEach(() => {
+		jest.useFakeTimers({ now: 1000000 });
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('signs a token for the address of the client, valid for the TTL', async () => {
+		const { sessionTokenManager, wallet } = createSessionTokenManager();
+
+		const token = SessionToken.deserialize(
+			await sessionTokenManager.getToken()
+		);
+
+		expect(token.address).toBe(wallet.address.toLowerCase());
+		expect(token.issuedAt).toBe(1000000);
+		expect(token.expiresAt).toBe(1000000 + SESSION_TOKEN_TTL);
+		expect(() => token.verify()).not.toThrow();
+	});
+
+	it('reuses the token until it is about to expire', async () => {
+		const { sessionTokenManager, authentication } = createSessionTokenManager();
+
+		const token = await sessionTokenManager.getToken();
+		// more than a tenth of the TTL is left
+		jest.setSystemTime(1000000 + SESSION_TOKEN_TTL * 0.9 - 1);
+		expect(await sessionTokenManager.getToken()).toBe(token);
+		expect(authentication.createMessageSignature).toHaveBeenCalledTimes(1);
+
+		jest.setSystemTime(1000000 + SESSION_TOKEN_TTL * 0.9);
+		const refreshed = await sessionTokenManager.getToken();
+		expect(refreshed).not.toBe(token);
+		expect(SessionToken.deserialize(refreshed).expiresAt).toBe(
+			1000000 + SESSION_TOKEN_TTL * 1.9
+		);
+		expect(authentication.createMessageSignature).toHaveBeenCalledTimes(2);
+	});
+
+	it('signs one token for the requests made while it is signed', async () => {
+		const { sessionTokenManager, authentication } = createSessionTokenManager();
+
+		const tokens = await Promise.all([
+			sessionTokenManager.getToken(),
+			sessionTokenManager.getToken(),
+		]);
+
+		expect(tokens[0]).toBe(tokens[1]);
+		expect(authentication.createMessageSignature).toHaveBeenCalledTimes(1);
+	});
+
+	it('signs a new token once the token is invalidated', async () => {
+		const { sessionTokenManager, authentication } = createSessionTokenManager();
+
+		const token = await sessionTokenManager.getToken();
+		sessionTokenManager.invalidate();
+
+		expect(await sessionTokenManager.getToken()).not.toBe(token);
+		expect(authentication.createMessageSignature).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,306 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { toStreamID } from '@streamr/protocol';
+import { toEthereumAddress } from '@streamr/utils';
+import { EventEmitter } from 'events';
+import 'reflect-metadata';
+
+import { LogStoreClientEventEmitter } from '../../src/events';
+import {
+	CaptureOverflowEvent,
+	filterUsageEvents,
+	UsageRegistry,
+} from '../../src/registry/UsageRegistry';
+import { mockLoggerFactory } from '../test-utils/utils';
+
+jest.mock('../../src/Ethereum', () => ({
+	getStreamRegistryChainProviders: () => [{}],
+}));
+
+const STREAM_ID = toStreamID('0x0000000000000000000000000000000000000001/test');
+
+const CONSUMER = toEthereumAddress(
+	'0x00000000000000000000000000000000000000aB'
+);
+
+const OWN_ADDRESS = toEthereumAddress(
+	'0x00000000000000000000000000000000000000cD'
+);
+
+const EXTRA = { blockNumber: 10, transactionHash: '0x1234' };
+
+/**
+ * The subgraph record of an event, in the block of the timestamp in seconds.
+ */
+const createRecord = (
+	id: string,
+	blockTimestamp: number,
+	fields: Record<string, string>
+) => ({
+	id,
+	blockNumber: '10',
+	blockTimestamp: `${blockTimestamp}`,
+	transactionHash: '0x1234',
+	...fields,
+});
+
+const createUsageRegistry = (records: Record<string, any[]> = {}) => {
+	const contracts = {
+		logStoreManager: new EventEmitter(),
+		logStoreQueryManager: new EventEmitter(),
+	};
+	const queries: string[] = [];
+	const graphQLClient = {
+		fetchPaginatedResults: async function* (
+			createQuery: (lastId: string, pageSize: number) => { query: string }
+		) {
+			const { query } = createQuery('', 100);
+			queries.push(query);
+			const entities = /\{\s*(\w+)\(/.exec(query)![1];
+			yield* records[entities] ?? [];
+		},
+	};
+	const eventEmitter = new LogStoreClientEventEmitter();
+	const usageRegistry = new UsageRegistry(
+		{
+			createReadContract: (
+				_address: string,
+				_abi: unknown,
+				_provider: unknown,
+				name: keyof typeof contracts
+			) => contracts[name],
+		} as any,
+		{ toStreamID: async (id: string) => toStreamID(id) } as any,
+		graphQLClient as any,
+		eventEmitter,
+		{ getAddress: async () => OWN_ADDRESS } as any,
+		mockLoggerFactory(),
+		{
+			contracts: {
+				logStoreStoreManagerChainAddress:
+					'0x0000000000000000000000000000000000000010',
+				logStoreQueryManagerChainAddress:
+					'0x0000000000000000000000000000000000000011',
+			},
+		} as any
+	);
+	return { usageRegistry, contracts, queries, eventEmitter };
+};
+
+describe('UsageRegistry', () => {
+	describe('getStoreUsage', () => {
+		it('reads the data stored and the capture overflows of the stream', async () => {
+			const { usageRegistry, queries } = createUsageRegistry({
+				dataStoreds: [
+					createRecord('1', 1000, {
+						store: STREAM_ID,
+						fees: '100',
+						bytesStored: '2000',
+					}),
+				],
+				storeCaptureOverflows: [
+					createRecord('2', 1001, {
+						store: STREAM_ID,
+						stake: '50',
+						capture: '80',
+						overflow: '30',
+					}),
+				],
+			});
+
+			const usage = await usageRegistry.getStoreUsage(STREAM_ID);
+
+			expect(usage).toEqual({
+				dataStored: [
+					{
+						store: STREAM_ID,
+						fees: BigInt(100),
+						bytesStored: BigInt(2000),
+						...EXTRA,
+						timestamp: 1000000,
+					},
+				],
+				captureOverflows: [
+					{
+						manager: 'store',
+						store: STREAM_ID,
+						stake: BigInt(50),
+						capture: BigInt(80),
+						overflow: BigInt(30),
+						...EXTRA,
+						timestamp: 1001000,
+					},
+				],
+			});
+			for (const query of queries) {
+				expect(query).toContain(`store: "${STREAM_ID}"`);
+				expect(query).not.toContain('blockTimestamp_');
+			}
+		});
+
+		it('filters the events by the time of their block', async () => {
+			const { usageRegistry, queries } = createUsageRegistry();
+
+			await usageRegistry.getStoreUsage(STREAM_ID, {
+				from: 1000500,
+				to: 2000999,
+			});
+
+			expect(queries).toHaveLength(2);
+			for (const query of queries) {
+				// the BigInt timestamps of the subgraph are filtered by strings, in seconds
+				expect(query).toContain('blockTimestamp_gte: "1000"');
+				expect(query).toContain('blockTimestamp_lte: "2000"');
+			}
+		});
+	});
+
+	describe('getQueryUsage', () => {
+		it('reads the queries and the capture overflows of the consumer', async () => {
+			const { usageRegistry, queries } = createUsageRegistry({
+				dataQuerieds: [
+					createRecord('1', 1000, {
+						consumer: CONSUMER.toLowerCase(),
+						fees: '100',
+						bytesProcessed: '2000',
+					}),
+				],
+			});
+
+			const usage = await usageRegistry.getQueryUsage(CONSUMER, { from: 0 });
+
+			expect(usage).toEqual({
+				dataQueried: [
+					{
+						consumer: CONSUMER,
+						fees: BigInt(100),
+						bytesProcessed: BigInt(2000),
+						...EXTRA,
+						timestamp: 1000000,
+					},
+				],
+				captureOverflows: [],
+			});
+			for (const query of queries) {
+				// the subgraph stores the addresses as lowercase bytes
+				expect(query).toContain(`consumer: "${CONSUMER.toLowerCase()}"`);
+				expect(query).toContain('blockTimestamp_gte: "0"');
+			}
+		});
+
+		it('reads the usage of the client by default', async () => {
+			const { usageRegistry, queries } = createUsageRegistry();
+
+			await usageRegistry.getQueryUsage();
+
+			expect(queries[0]).toContain(`consumer: "${OWN_ADDRESS.toLowerCase()}"`);
+		});
+	});
+
+	describe('events', () => {
+		it('listens to the contracts only while the client has listeners', () => {
+			const { contracts, eventEmitter } = createUsageRegistry();
+			const listener = jest.fn();
+			expect(contracts.logStoreManager.listenerCount('DataStored')).toBe(0);
+
+			eventEmitter.on('dataStored', listener);
+			contracts.logStoreManager.emit(
+				'DataStored',
+				STREAM_ID,
+				BigNumber.from(100),
+				BigNumber.from(2000),
+				EXTRA
+			);
+			eventEmitter.off('dataStored', listener);
+
+			expect(listener).toHaveBeenCalledWith({
+				store: STREAM_ID,
+				fees: BigInt(100),
+				bytesStored: BigInt(2000),
+				...EXTRA,
+			});
+			expect(contracts.logStoreManager.listenerCount('DataStored')).toBe(0);
+		});
+
+		it('emits the capture overflows of both the managers', () => {
+			const { contracts, eventEmitter } = createUsageRegistry();
+			const listener = jest.fn();
+			eventEmitter.on('captureOverflow', listener);
+
+			const amounts = [50, 80, 30].map((amount) => BigNumber.from(amount));
+			contracts.logStoreManager.emit(
+				'CaptureOverflow',
+				STREAM_ID,
+				...amounts,
+				EXTRA
+			);
+			contracts.logStoreQueryManager.emit(
+				'CaptureOverflow',
+				CONSUMER.toLowerCase(),
+				...amounts,
+				EXTRA
+			);
+
+			const overflow = {
+				stake: BigInt(50),
+				capture: BigInt(80),
+				overflow: BigInt(30),
+				...EXTRA,
+			};
+			expect(listener.mock.calls).toEqual([
+				[{ manager: 'store', store: STREAM_ID, ...overflow }],
+				[{ manager: 'query', consumer: CONSUMER, ...overflow }],
+			]);
+		});
+	});
+
+	describe('filterUsageEvents', () => {
+		const overflow = {
+			stake: BigInt(50),
+			capture: BigInt(80),
+			overflow: BigInt(30),
+			...EXTRA,
+		};
+		const storeOverflow: CaptureOverflowEvent = {
+			manager: 'store',
+			store: STREAM_ID,
+			...overflow,
+		};
+		const queryOverflow: CaptureOverflowEvent = {
+			manager: 'query',
+			consumer: CONSUMER,
+			...overflow,
+		};
+
+		it('passes the events of the stream or of the consumer only', () => {
+			const streamListener = jest.fn();
+			const consumerListener = jest.fn();
+			const filterByStream = filterUsageEvents(
+				{ streamId: STREAM_ID },
+				streamListener
+			);
+			const filterByConsumer = filterUsageEvents(
+				{ consumer: CONSUMER },
+				consumerListener
+			);
+
+			for (const event of [storeOverflow, queryOverflow]) {
+				filterByStream(event);
+				filterByConsumer(event);
+			}
+			filterByStream({ ...storeOverflow, store: 'other-stream' });
+
+			expect(streamListener.mock.calls).toEqual([[storeOverflow]]);
+			expect(consumerListener.mock.calls).toEqual([[queryOverflow]]);
+		});
+
+		it('passes all the events without a filter', () => {
+			const listener = jest.fn();
+			const filter = filterUsageEvents({}, listener);
+
+			filter(storeOverflow);
+			filter(queryOverflow);
+
+			expect(listener).toHaveBeenCalledTimes(2);
+		});
+	});
+});
@@ -0,0 +1,36 @@
+import { Message, MessageStream } from '@logsn/streamr-client';
+import { StreamMessage } from '@streamr/protocol';
+
+import { toStreamMessage } from '../../src/utils/messages';
+import { createTestStreamMessage } from '../test-utils/utils';
+
+describe('toStreamMessage', () => {
+	it('returns the StreamMessage a Message of a MessageStream was converted from', async () => {
+		const streamMessages = [
+			createTestStreamMessage({ timestamp: 1000 }),
+			createTestStreamMessage({ timestamp: 2000, content: { foo: 'bar' } }),
+		];
+		const messageStream = new MessageStream();
+		messageStream.pull(
+			(async function* (): AsyncGenerator<StreamMessage> {
+				for (const streamMessage of streamMessages) {
+					yield streamMessage;
+				}
+			})()
+		);
+
+		const received: StreamMessage[] = [];
+		for await (const message of messageStream) {
+			received.push(toStreamMessage(message));
+		}
+
+		expect(received).toEqual(streamMessages);
+		expect(received[1]).toBe(streamMessages[1]);
+	});
+
+	it('throws if the Message does not carry its StreamMessage', () => {
+		expect(() => toStreamMessage({ content: {} } as Message)).toThrow(
+			'The Message does not carry its StreamMessage'
+		);
+	});
+});
@@ -13,6 +13,8 @@ import {ReentrancyGuardUpgradeable} from "@openzeppelin/contracts-upgradeable/se
 contract LogStoreQueryManager is Initializable, UUPSUpgradeable, OwnableUpgradeable, ReentrancyGuardUpgradeable {
     event DataQueried(address indexed consumer, uint256 fees, uint256 bytesProcessed);
     event Stake(address indexed consumer, uint amount);
+    event WithdrawRequested(address indexed consumer, uint256 unlocksAt);
+    event Withdraw(address indexed consumer, uint amount);
     event CaptureOverflow(address consumer, uint stake, uint capture, uint overflow);
     event SupplyOverflow(uint supply, uint capture, uint overflow);
 
@@ -26,6 +28,9 @@ contract LogStoreQueryManager is Initializable, UUPSUpgradeable, OwnableUpgradea
     mapping(address => uint256) public balanceOf; // map of addresses and their total balanace
     IERC20Upgradeable internal stakeToken;
     address internal parent;
+    // seconds a withdrawal waits after its request, for the captures of the queries until then
+    uint256 public withdrawDelay;
+    mapping(address => uint256) public withdrawUnlocksAt; // map of addresses and the time their withdrawal unlocks
 
     function initialize(address owner_, address parent_, address stakeTokenAddress_) public initializer {
         __Ownable_init();
@@ -46,6 +51,10 @@ contract LogStoreQueryManager is Initializable, UUPSUpgradeable, OwnableUpgradea
         parent = _parent;
     }
 
+    function setWithdrawDelay(uint256 _withdrawDelay) public onlyOwner {
+        withdrawDelay = _withdrawDelay;
+    }
+
     /// Capture funds for a given query
     /// Only the LogStore Contract can call the capture method
     /// @param amount amount of tokens to capture
@@ -87,4 +96,34 @@ contract LogStoreQueryManager is Initializable, UUPSUpgradeable, OwnableUpgradea
         require(success == true, "error_unsuccessfulStake");
         emit Stake(msg.sender, amount);
     }
+
+    // The stake stays in the contract until the withdrawal unlocks,
+    // so that the queries until the request are still paid for
+    function requestWithdraw() public {
+        require(balanceOf[msg.sender] > 0, "error_notEnoughStake");
+
+        uint256 unlocksAt = block.timestamp + withdrawDelay;
+        withdrawUnlocksAt[msg.sender] = unlocksAt;
+        emit WithdrawRequested(msg.sender, unlocksAt);
+    }
+
+    function withdraw(uint amount) public nonReentrant {
+        require(amount > 0, "error_insufficientStake");
+        require(amount <= balanceOf[msg.sender], "error_notEnoughStake");
+        uint256 unlocksAt = withdrawUnlocksAt[msg.sender];
+        require(unlocksAt > 0 && unlocksAt <= block.timestamp, "error_withdrawLocked");
+
+        delete withdrawUnlocksAt[msg.sender];
+        balanceOf[msg.sender] -= amount;
+        // The supply may have been reduced by an overflowing capture
+        if (totalSupply < amount) {
+            totalSupply = 0;
+        } else {
+            totalSupply -= amount;
+        }
+
+        bool success = stakeToken.transfer(msg.sender, amount);
+        require(success == true, "error_unsuccessfulWithdraw");
+        emit Withdraw(msg.sender, amount);
+    }
 }
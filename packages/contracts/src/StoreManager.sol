@@ -14,6 +14,8 @@ import {StringsUpgradeable} from "./lib/StringsUpgradeable.sol";
 // Owned by the NodeManager Contract
 contract LogStoreManager is Initializable, UUPSUpgradeable, OwnableUpgradeable, ReentrancyGuardUpgradeable {
     event StoreUpdated(string store, bool isNew, uint256 amount);
+    event StoreWithdrawRequested(string store, address stakeholder, uint256 unlocksAt);
+    event StoreWithdrawn(string store, bool isRemoved, uint256 amount);
     event DataStored(string store, uint256 fees, uint256 bytesStored);
     event CaptureOverflow(string store, uint stake, uint capture, uint overflow);
     event SupplyOverflow(uint supply, uint capture, uint overflow);
@@ -32,6 +34,10 @@ contract LogStoreManager is Initializable, UUPSUpgradeable, OwnableUpgradeable,
     IERC20Upgradeable internal stakeToken;
     IStreamRegistry internal streamrRegistry;
     address internal parent;
+    // seconds a withdrawal waits after its request, for the captures of the data stored until then
+    uint256 public withdrawDelay;
+    // map of addresses and the time their withdrawal from a store unlocks
+    mapping(address => mapping(string => uint256)) public withdrawUnlocksAt;
 
     function initialize(
         address owner_,
@@ -58,6 +64,10 @@ contract LogStoreManager is Initializable, UUPSUpgradeable, OwnableUpgradeable,
         parent = _parent;
     }
 
+    function setWithdrawDelay(uint256 _withdrawDelay) public onlyOwner {
+        withdrawDelay = _withdrawDelay;
+    }
+
     function exists(string calldata streamId) public view returns (bool) {
         return stores[streamId] > 0;
     }
@@ -93,33 +103,37 @@ contract LogStoreManager is Initializable, UUPSUpgradeable, OwnableUpgradeable,
             stores[streamId] = 0;
         } else {
             address[] memory stakeholders = storeStakeholders[streamId];
-            // Determine the fee amounts proportional to each stakeholder stake amount
+            // The stakes may not sum up to the balance of the store,
+            // if it was captured before the two were kept in sync
+            uint256 staked = 0;
             for (uint256 i = 0; i < stakeholders.length; i++) {
+                staked += storeBalanceOf[stakeholders[i]][streamId];
+            }
+            // Determine the fee amounts proportional to each stakeholder stake amount
+            // A deduction is capped at the stake left, so that only what was actually taken is captured
+            uint256 taken = 0;
+            for (uint256 i = 0; i < stakeholders.length && staked > 0; i++) {
                 address stakeholder = stakeholders[i];
-                uint256 stakeOwnership = storeBalanceOf[stakeholder][streamId] / stores[streamId];
-                uint256 deduction = stakeOwnership * amount;
-                if (balanceOf[stakeholder] < deduction) {
-                    balanceOf[stakeholder] = 0;
-                } else {
-                    balanceOf[stakeholder] -= deduction;
-                }
-                if (storeBalanceOf[stakeholder][streamId] < deduction) {
-                    storeBalanceOf[stakeholder][streamId] = 0;
-                } else {
-                    storeBalanceOf[stakeholder][streamId] -= deduction;
-                }
-                // if stake of a user is finished then remove from the list of delegates
-                if (storeBalanceOf[stakeholder][streamId] == 0) {
-                    storeStakeholders[streamId] = new address[](0);
-                    for (uint256 j = 0; j < stakeholders.length; j++) {
-                        if (stakeholders[j] != stakeholder) {
-                            storeStakeholders[streamId].push(stakeholder);
-                        }
-                    }
+                taken += deductStake(stakeholder, streamId, (storeBalanceOf[stakeholder][streamId] * amount) / staked);
+            }
+            // The integer division rounds the deductions down, so the remainder is taken from the stakes left in turn
+            for (uint256 i = 0; i < stakeholders.length && taken < amount; i++) {
+                taken += deductStake(stakeholders[i], streamId, amount - taken);
+            }
+            // if stake of a user is finished then remove from the list of delegates
+            delete storeStakeholders[streamId];
+            for (uint256 i = 0; i < stakeholders.length; i++) {
+                if (storeBalanceOf[stakeholders[i]][streamId] > 0) {
+                    storeStakeholders[streamId].push(stakeholders[i]);
                 }
             }
 
-            stores[streamId] -= amount;
+            if (taken < amount) {
+                emit CaptureOverflow(streamId, staked, amount, amount - taken);
+                amountToTransfer = taken;
+            }
+            // The balance of the store is the sum of the stakes left in it
+            stores[streamId] = staked - taken;
         }
 
         if (totalSupply < amount) {
@@ -137,6 +151,21 @@ contract LogStoreManager is Initializable, UUPSUpgradeable, OwnableUpgradeable,
         emit DataStored(streamId, amount, bytesStored);
     }
 
+    // Deducts up to the amount from the stake of the stakeholder in the store, and returns the amount deducted
+    function deductStake(address stakeholder, string memory streamId, uint256 amount) internal returns (uint256) {
+        uint256 deduction = amount;
+        if (storeBalanceOf[stakeholder][streamId] < deduction) {
+            deduction = storeBalanceOf[stakeholder][streamId];
+        }
+        if (balanceOf[stakeholder] < deduction) {
+            balanceOf[stakeholder] = 0;
+        } else {
+            balanceOf[stakeholder] -= deduction;
+        }
+        storeBalanceOf[stakeholder][streamId] -= deduction;
+        return deduction;
+    }
+
     function stake(string memory streamId, uint amount) public {
         // Validate stream is inside of StreamrRegiststry
         require(streamrRegistry.exists(streamId), "error_invalidStream");
@@ -158,4 +187,59 @@ contract LogStoreManager is Initializable, UUPSUpgradeable, OwnableUpgradeable,
         totalSupply += amount;
         emit StoreUpdated(streamId, isNew, amount);
     }
+
+    // The stake stays in the store until the withdrawal unlocks,
+    // so that the data stored until the request is still paid for
+    function requestWithdraw(string memory streamId) public {
+        require(storeBalanceOf[msg.sender][streamId] > 0, "error_notEnoughStake");
+
+        uint256 unlocksAt = block.timestamp + withdrawDelay;
+        withdrawUnlocksAt[msg.sender][streamId] = unlocksAt;
+        emit StoreWithdrawRequested(streamId, msg.sender, unlocksAt);
+    }
+
+    function withdraw(string memory streamId, uint amount) public nonReentrant {
+        require(amount > 0, "error_insufficientStake");
+        require(amount <= storeBalanceOf[msg.sender][streamId], "error_notEnoughStake");
+        uint256 unlocksAt = withdrawUnlocksAt[msg.sender][streamId];
+        require(unlocksAt > 0 && unlocksAt <= block.timestamp, "error_withdrawLocked");
+
+        delete withdrawUnlocksAt[msg.sender][streamId];
+        storeBalanceOf[msg.sender][streamId] -= amount;
+        // The balance of the store may be less than the stakes,
+        // if it was captured before the two were kept in sync
+        if (stores[streamId] < amount) {
+            stores[streamId] = 0;
+        } else {
+            stores[streamId] -= amount;
+        }
+        // The balances may have been reduced by a capture
+        if (balanceOf[msg.sender] < amount) {
+            balanceOf[msg.sender] = 0;
+        } else {
+            balanceOf[msg.sender] -= amount;
+        }
+        if (totalSupply < amount) {
+            totalSupply = 0;
+        } else {
+            totalSupply -= amount;
+        }
+
+        // Remove the stakeholder from the store once its stake is withdrawn
+        if (storeBalanceOf[msg.sender][streamId] == 0) {
+            address[] storage stakeholders = storeStakeholders[streamId];
+            for (uint256 i = 0; i < stakeholders.length; i++) {
+                if (stakeholders[i] == msg.sender) {
+                    stakeholders[i] = stakeholders[stakeholders.length - 1];
+                    stakeholders.pop();
+                    break;
+                }
+            }
+        }
+
+        bool success = stakeToken.transfer(msg.sender, amount);
+        require(success == true, "error_unsuccessfulWithdraw");
+
+        emit StoreWithdrawn(streamId, stores[streamId] == 0, amount);
+    }
 }
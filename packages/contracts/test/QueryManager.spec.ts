@@ -1,3 +1,4 @@
+import { time } from '@nomicfoundation/hardhat-network-helpers';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { expect } from 'chai';
 import { Contract } from 'ethers';
@@ -86,4 +87,98 @@ describe('QueryManager', async function () {
 			);
 		});
 	});
+
+	describe('Withdraw', async function () {
+		it('Withdraw ---- A user cannot withdraw more than their stake', async function () {
+			const activeUser = otherSigners[otherSigners.length - 2];
+			const stakeAmount = getDecimalBN(1);
+			await queryManagerContract
+				.connect(activeUser)
+				.functions.stake(stakeAmount);
+
+			const withdrawTx = queryManagerContract
+				.connect(activeUser)
+				.functions.withdraw(stakeAmount.add(1));
+			await expect(withdrawTx).to.revertedWith(
+				CUSTOM_EXCEPTIONS.INVALID_WITHDRAW_AMOUNT
+			);
+		});
+
+		it('Withdraw ---- A user can withdraw their stake', async function () {
+			const activeUser = otherSigners[otherSigners.length - 2];
+			const stakeAmount = getDecimalBN(1);
+			const ercToken = await getERC20Token(adminSigner);
+			await queryManagerContract
+				.connect(activeUser)
+				.functions.stake(stakeAmount);
+			const [userPreWithdrawBalance] = await ercToken.functions.balanceOf(
+				activeUser.address
+			);
+			await queryManagerContract
+				.connect(activeUser)
+				.functions.requestWithdraw();
+
+			const withdrawTx = await queryManagerContract
+				.connect(activeUser)
+				.functions.withdraw(stakeAmount);
+			const event = await fetchEventArgsFromTx(
+				withdrawTx,
+				QUERY_MANAGER_EVENTS.WITHDRAW
+			);
+
+			expect(event?.consumer).to.equal(CONSUMER_ADDRESS);
+			expect(+event?.amount).to.equal(+stakeAmount);
+
+			const [userBalance] = await queryManagerContract.functions.balanceOf(
+				activeUser.address
+			);
+			const [userPostWithdrawBalance] = await ercToken.functions.balanceOf(
+				activeUser.address
+			);
+			expect(+userBalance).to.equal(0);
+			expect(userPostWithdrawBalance).to.equal(
+				userPreWithdrawBalance.add(stakeAmount)
+			);
+		});
+
+		it('Withdraw ---- A withdrawal is locked until the delay after its request', async function () {
+			const activeUser = otherSigners[otherSigners.length - 2];
+			const stakeAmount = getDecimalBN(1);
+			const withdrawDelay = 60 * 60;
+			await queryManagerContract.functions.setWithdrawDelay(withdrawDelay);
+			await queryManagerContract
+				.connect(activeUser)
+				.functions.stake(stakeAmount);
+			const withdraw = () =>
+				queryManagerContract
+					.connect(activeUser)
+					.functions.withdraw(stakeAmount.div(2));
+
+			await expect(withdraw()).to.revertedWith(
+				CUSTOM_EXCEPTIONS.WITHDRAW_LOCKED
+			);
+
+			const requestTx = await queryManagerContract
+				.connect(activeUser)
+				.functions.requestWithdraw();
+			const event = await fetchEventArgsFromTx(
+				requestTx,
+				QUERY_MANAGER_EVENTS.WITHDRAW_REQUESTED
+			);
+			const requestTimestamp = await time.latest();
+			expect(event?.consumer).to.equal(CONSUMER_ADDRESS);
+			expect(+event?.unlocksAt).to.equal(requestTimestamp + withdrawDelay);
+			await expect(withdraw()).to.revertedWith(
+				CUSTOM_EXCEPTIONS.WITHDRAW_LOCKED
+			);
+
+			await time.increaseTo(requestTimestamp + withdrawDelay);
+			await withdraw();
+
+			// the request is used up by the withdrawal
+			await expect(withdraw()).to.revertedWith(
+				CUSTOM_EXCEPTIONS.WITHDRAW_LOCKED
+			);
+		});
+	});
 });
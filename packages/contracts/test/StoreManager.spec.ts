@@ -1,6 +1,11 @@
+import {
+	getStorageAt,
+	setStorageAt,
+	time,
+} from '@nomicfoundation/hardhat-network-helpers';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { expect } from 'chai';
-import { Contract } from 'ethers';
+import { BigNumber, Contract } from 'ethers';
 import { ethers } from 'hardhat';
 
 import {
@@ -95,4 +100,288 @@ describe('StoreManager', async function () {
 			);
 		});
 	});
+
+	/**
+	 * Requests the withdrawal of the stake of the user, and withdraws it.
+	 */
+	const withdrawAll = async (user: SignerWithAddress, amount: BigNumber) => {
+		await storeManagerContract
+			.connect(user)
+			.functions.requestWithdraw(SAMPLE_STREAM_ID);
+		await storeManagerContract
+			.connect(user)
+			.functions.withdraw(SAMPLE_STREAM_ID, amount);
+	};
+
+	describe('Withdraw', async function () {
+		it('Withdraw ---- A user cannot withdraw more than their stake', async function () {
+			const activeUser = otherSigners[otherSigners.length - 2];
+			const stakeAmount = getDecimalBN(1);
+			await storeManagerContract
+				.connect(activeUser)
+				.functions.stake(SAMPLE_STREAM_ID, stakeAmount);
+
+			const withdrawTx = storeManagerContract
+				.connect(activeUser)
+				.functions.withdraw(SAMPLE_STREAM_ID, stakeAmount.add(1));
+			await expect(withdrawTx).to.revertedWith(
+				CUSTOM_EXCEPTIONS.INVALID_WITHDRAW_AMOUNT
+			);
+		});
+
+		it('Withdraw ---- A user can withdraw their stake', async function () {
+			const activeUser = otherSigners[otherSigners.length - 2];
+			const stakeAmount = getDecimalBN(1);
+			const ercToken = await getERC20Token(adminSigner);
+			await storeManagerContract
+				.connect(activeUser)
+				.functions.stake(SAMPLE_STREAM_ID, stakeAmount);
+			const [userPreWithdrawBalance] = await ercToken.functions.balanceOf(
+				activeUser.address
+			);
+			await storeManagerContract
+				.connect(activeUser)
+				.functions.requestWithdraw(SAMPLE_STREAM_ID);
+
+			const withdrawTx = await storeManagerContract
+				.connect(activeUser)
+				.functions.withdraw(SAMPLE_STREAM_ID, stakeAmount);
+			const event = await fetchEventArgsFromTx(
+				withdrawTx,
+				STORE_MANAGER_EVENTS.STORE_WITHDRAWN
+			);
+
+			expect(event?.store).to.equal(SAMPLE_STREAM_ID);
+			expect(event?.isRemoved).to.equal(true);
+			expect(+event?.amount).to.equal(+stakeAmount);
+
+			const [streamBalance] = await storeManagerContract.functions.stores(
+				SAMPLE_STREAM_ID
+			);
+			const [storeUserBalance] =
+				await storeManagerContract.functions.storeBalanceOf(
+					activeUser.address,
+					SAMPLE_STREAM_ID
+				);
+			const [userPostWithdrawBalance] = await ercToken.functions.balanceOf(
+				activeUser.address
+			);
+			expect(+streamBalance).to.equal(0);
+			expect(+storeUserBalance).to.equal(0);
+			expect(userPostWithdrawBalance).to.equal(
+				userPreWithdrawBalance.add(stakeAmount)
+			);
+			await expect(
+				storeManagerContract.functions.storeStakeholders(SAMPLE_STREAM_ID, 0)
+			).to.be.reverted;
+		});
+
+		it('Withdraw ---- Stakeholders can only withdraw their stake left after a capture', async function () {
+			const [userA, userB] = otherSigners.slice(-3, -1);
+			const ercToken = await getERC20Token(adminSigner);
+			// capture as the parent, which is otherwise the NodeManager
+			await storeManagerContract.functions.setParent(adminSigner.address);
+			await storeManagerContract
+				.connect(userA)
+				.functions.stake(SAMPLE_STREAM_ID, getDecimalBN(3));
+			await storeManagerContract
+				.connect(userB)
+				.functions.stake(SAMPLE_STREAM_ID, getDecimalBN(1));
+
+			// each stakeholder pays for the capture in proportion to their stake
+			await storeManagerContract.functions.capture(
+				SAMPLE_STREAM_ID,
+				getDecimalBN(2),
+				1
+			);
+			const stakeA = getDecimalBN(3).sub(getDecimalBN(3).mul(2).div(4));
+			const stakeB = getDecimalBN(1).sub(getDecimalBN(1).mul(2).div(4));
+			const [streamBalance] = await storeManagerContract.functions.stores(
+				SAMPLE_STREAM_ID
+			);
+			const [storeBalanceA] =
+				await storeManagerContract.functions.storeBalanceOf(
+					userA.address,
+					SAMPLE_STREAM_ID
+				);
+			const [storeBalanceB] =
+				await storeManagerContract.functions.storeBalanceOf(
+					userB.address,
+					SAMPLE_STREAM_ID
+				);
+			expect(streamBalance).to.equal(getDecimalBN(2));
+			expect(storeBalanceA).to.equal(stakeA);
+			expect(storeBalanceB).to.equal(stakeB);
+
+			await expect(
+				storeManagerContract
+					.connect(userB)
+					.functions.withdraw(SAMPLE_STREAM_ID, getDecimalBN(1))
+			).to.revertedWith(CUSTOM_EXCEPTIONS.INVALID_WITHDRAW_AMOUNT);
+
+			const [userPreWithdrawBalanceB] = await ercToken.functions.balanceOf(
+				userB.address
+			);
+			await withdrawAll(userB, stakeB);
+			await withdrawAll(userA, stakeA);
+			const [userPostWithdrawBalanceB] = await ercToken.functions.balanceOf(
+				userB.address
+			);
+			const [streamPostWithdrawBalance] =
+				await storeManagerContract.functions.stores(SAMPLE_STREAM_ID);
+			const [contractBalance] = await ercToken.functions.balanceOf(
+				storeManagerContract.address
+			);
+			expect(userPostWithdrawBalanceB).to.equal(
+				userPreWithdrawBalanceB.add(stakeB)
+			);
+			expect(+streamPostWithdrawBalance).to.equal(0);
+			expect(+contractBalance).to.equal(0);
+		});
+
+		it('Withdraw ---- A withdrawal is locked until the delay after its request', async function () {
+			const activeUser = otherSigners[otherSigners.length - 2];
+			const stakeAmount = getDecimalBN(1);
+			const withdrawDelay = 60 * 60;
+			await storeManagerContract.functions.setWithdrawDelay(withdrawDelay);
+			await storeManagerContract
+				.connect(activeUser)
+				.functions.stake(SAMPLE_STREAM_ID, stakeAmount);
+			const withdraw = () =>
+				storeManagerContract
+					.connect(activeUser)
+					.functions.withdraw(SAMPLE_STREAM_ID, stakeAmount.div(2));
+
+			await expect(withdraw()).to.revertedWith(
+				CUSTOM_EXCEPTIONS.WITHDRAW_LOCKED
+			);
+
+			const requestTx = await storeManagerContract
+				.connect(activeUser)
+				.functions.requestWithdraw(SAMPLE_STREAM_ID);
+			const event = await fetchEventArgsFromTx(
+				requestTx,
+				STORE_MANAGER_EVENTS.STORE_WITHDRAW_REQUESTED
+			);
+			const requestTimestamp = await time.latest();
+			expect(event?.store).to.equal(SAMPLE_STREAM_ID);
+			expect(event?.stakeholder).to.equal(activeUser.address);
+			expect(+event?.unlocksAt).to.equal(requestTimestamp + withdrawDelay);
+			await expect(withdraw()).to.revertedWith(
+				CUSTOM_EXCEPTIONS.WITHDRAW_LOCKED
+			);
+
+			await time.increaseTo(requestTimestamp + withdrawDelay);
+			await withdraw();
+
+			// the request is used up by the withdrawal
+			await expect(withdraw()).to.revertedWith(
+				CUSTOM_EXCEPTIONS.WITHDRAW_LOCKED
+			);
+		});
+	});
+
+	describe('Capture', async function () {
+		const getStakes = async (users: SignerWithAddress[]) => {
+			const stakes = await Promise.all(
+				users.map(async (user) => {
+					const [stake] = await storeManagerContract.functions.storeBalanceOf(
+						user.address,
+						SAMPLE_STREAM_ID
+					);
+					return stake as BigNumber;
+				})
+			);
+			const [store] = await storeManagerContract.functions.stores(
+				SAMPLE_STREAM_ID
+			);
+			return { stakes, store: store as BigNumber };
+		};
+
+		beforeEach(async () => {
+			// capture as the parent, which is otherwise the NodeManager
+			await storeManagerContract.functions.setParent(adminSigner.address);
+		});
+
+		it('Capture ---- The remainder of the rounding is taken from the stakes left', async function () {
+			const users = otherSigners.slice(-4, -1);
+			const stakeAmounts = [3, 3, 1];
+			for (let i = 0; i < users.length; i++) {
+				await storeManagerContract
+					.connect(users[i])
+					.functions.stake(SAMPLE_STREAM_ID, stakeAmounts[i]);
+			}
+
+			// the shares 6 * 3 / 7 and 6 * 1 / 7 round down to 2 and 0
+			const captureTx = await storeManagerContract.functions.capture(
+				SAMPLE_STREAM_ID,
+				6,
+				1
+			);
+
+			const { stakes, store } = await getStakes(users);
+			expect(stakes.map(Number)).to.deep.equal([0, 0, 1]);
+			expect(+store).to.equal(1);
+			expect(
+				await fetchEventArgsFromTx(
+					captureTx,
+					STORE_MANAGER_EVENTS.CAPTURE_OVERFLOW
+				)
+			).to.equal(undefined);
+		});
+
+		it('Capture ---- The balance of a store which drifted from its stakes is brought back in sync', async function () {
+			const [userA, userB] = otherSigners.slice(-3, -1);
+			const ercToken = await getERC20Token(adminSigner);
+			await storeManagerContract
+				.connect(userA)
+				.functions.stake(SAMPLE_STREAM_ID, getDecimalBN(3));
+			await storeManagerContract
+				.connect(userB)
+				.functions.stake(SAMPLE_STREAM_ID, getDecimalBN(1));
+
+			// An earlier version of capture reduced the balance of the store without the stakes
+			const slot = await findStoreBalanceSlot(getDecimalBN(4));
+			await setStorageAt(storeManagerContract.address, slot, getDecimalBN(2));
+
+			await storeManagerContract.functions.capture(
+				SAMPLE_STREAM_ID,
+				getDecimalBN(1),
+				1
+			);
+
+			const { stakes, store } = await getStakes([userA, userB]);
+			expect(store).to.equal(stakes[0].add(stakes[1]));
+			expect(store).to.equal(getDecimalBN(3));
+
+			// the stakeholders can withdraw the whole of their stakes
+			await withdrawAll(userA, stakes[0]);
+			await withdrawAll(userB, stakes[1]);
+			const [storePostWithdraw] = await storeManagerContract.functions.stores(
+				SAMPLE_STREAM_ID
+			);
+			const [contractBalance] = await ercToken.functions.balanceOf(
+				storeManagerContract.address
+			);
+			expect(+storePostWithdraw).to.equal(0);
+			expect(+contractBalance).to.equal(0);
+		});
+	});
+
+	/**
+	 * Finds the storage slot of the balance of the store of SAMPLE_STREAM_ID, by the balance it holds.
+	 */
+	const findStoreBalanceSlot = async (balance: BigNumber): Promise<string> => {
+		for (let index = 0; index < 500; index++) {
+			const slot = ethers.utils.solidityKeccak256(
+				['string', 'uint256'],
+				[SAMPLE_STREAM_ID, index]
+			);
+			const value = await getStorageAt(storeManagerContract.address, slot);
+			if (BigNumber.from(value).eq(balance)) {
+				return slot;
+			}
+		}
+		throw new Error('The slot of the balance of the store is not found');
+	};
 });
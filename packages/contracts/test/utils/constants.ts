@@ -37,12 +37,16 @@ export const REPORT_MANAGER_EVENTS = {
 export const QUERY_MANAGER_EVENTS = {
 	DATA_QUERIED: 'DataQueried',
 	STAKE: 'Stake',
+	WITHDRAW_REQUESTED: 'WithdrawRequested',
+	WITHDRAW: 'Withdraw',
 	CAPTURE_OVERFLOW: 'CaptureOverflow',
 	SUPPLY_OVERFLOW: 'SupplyOverflow',
 };
 
 export const STORE_MANAGER_EVENTS = {
 	STORE_UPDATED: 'StoreUpdated',
+	STORE_WITHDRAW_REQUESTED: 'StoreWithdrawRequested',
+	STORE_WITHDRAWN: 'StoreWithdrawn',
 	CAPTURE_OVERFLOW: 'CaptureOverflow',
 	SUPPLY_OVERFLOW: 'SupplyOverflow',
 };
@@ -58,6 +62,7 @@ export const CUSTOM_EXCEPTIONS = {
 	NODE_NOT_WHITELISTED: 'error_notApproved',
 	STAKE_INSUFFICIENT_BALANCE: 'error_insufficientStake',
 	INVALID_WITHDRAW_AMOUNT: 'error_notEnoughStake',
+	WITHDRAW_LOCKED: 'error_withdrawLocked',
 	INSUFFICIENT_DELEGATE_AMOUNT: 'error_insufficientDelegateAmount',
 	NONE_EXISTENT_NODE: 'error_invalidNode',
 	INVALID_REPORT: 'error_invalidReport',
@@ -1,4 +1,7 @@
-import { ReportContractParams } from '../interfaces/report.common';
+import {
+	ReportContractParams,
+	ReportContractStruct,
+} from '../interfaces/report.common';
 import { IReportV1, IReportV1Serialized } from '../interfaces/report.v1';
 
 type IReport = IReportV1;
@@ -15,6 +18,8 @@ export abstract class ReportSerializer {
 		payload: IReport | IReportSerialized
 	): ReportContractParams;
 
+	abstract fromContract(report: ReportContractStruct): IReport;
+
 	abstract toHash(
 		payload: IReport | IReportSerialized,
 		timestamp?: number
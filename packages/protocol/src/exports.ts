@@ -10,3 +10,5 @@ export * from './system';
 export * from './interfaces/report.common';
 export * from './interfaces/report.v1';
 export * from './report/SystemReport';
+export * from './session/SessionToken';
+export * from './node/NodeMetadata';
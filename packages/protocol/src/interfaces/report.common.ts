@@ -1,3 +1,5 @@
+import type { BigNumberish } from '@ethersproject/bignumber';
+
 export enum ReportSerializerVersions {
 	V1 = 1,
 }
@@ -35,6 +37,32 @@ export type ReportContractParams = [
 	bigint
 ];
 
+interface ReportContractNode {
+	id: string;
+	amount: BigNumberish;
+}
+
+/**
+ * The Report struct as stored by the report manager contract.
+ */
+export interface ReportContractStruct {
+	id: string;
+	height: BigNumberish;
+	treasury: BigNumberish;
+	streams: {
+		id: string;
+		writeCapture: BigNumberish;
+		writeBytes: BigNumberish;
+	}[];
+	nodes: ReportContractNode[];
+	delegates: { id: string; nodes: ReportContractNode[] }[];
+	consumers: {
+		id: string;
+		readCapture: BigNumberish;
+		readBytes: BigNumberish;
+	}[];
+}
+
 // export type ReportContractParams = [
 // 	...ReportContractParamsBase,
 // 	// addresses,
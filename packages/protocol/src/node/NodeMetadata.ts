@@ -0,0 +1,147 @@
+import UnsupportedVersionError from '../errors/UnsupportedVersionError';
+import ValidationError from '../errors/ValidationError';
+import { QueryType } from '../system/QueryRequest';
+import { SystemMessage } from '../system/SystemMessage';
+import {
+	validateIsArray,
+	validateIsNotEmptyString,
+	validateIsNotNegativeInteger,
+	validateIsOneOf,
+	validateIsString,
+} from '../utils/validations';
+
+const VERSION = 1;
+
+const DEFAULT_QUERY_FORMATS = ['raw', 'object'];
+
+// What the nodes registered before the metadata was versioned serve
+const LEGACY_QUERY_TYPES = [QueryType.Last, QueryType.From, QueryType.Range];
+const LEGACY_QUERY_FORMATS = ['raw'];
+
+/**
+ * The metadata a node registers with the node manager contract, advertising how to reach
+ * the node and which queries it serves.
+ */
+export interface NodeMetadata {
+	version: number;
+	/** The HTTP endpoint the node serves the queries on */
+	http: string;
+	/** The WebSocket endpoint of the node */
+	ws?: string;
+	/** The region the node is located in, used to prefer the nodes of a region */
+	region?: string;
+	/** The query types the node serves */
+	queryTypes: QueryType[];
+	/** The formats the node returns the messages of a query in */
+	queryFormats: string[];
+	/** The version of the system messages the node signs its responses with */
+	protocolVersion: number;
+}
+
+export type NodeMetadataOptions = Pick<NodeMetadata, 'http'> &
+	Partial<Omit<NodeMetadata, 'version' | 'http'>>;
+
+const validateUrl = (
+	varName: string,
+	varValue: string,
+	protocols: string[]
+): void | never => {
+	let url: URL;
+	try {
+		url = new URL(varValue);
+	} catch (err) {
+		throw new ValidationError(
+			`Expected ${varName} to be a URL but was (${varValue}).`
+		);
+	}
+	validateIsOneOf(`${varName} protocol`, url.protocol, protocols);
+};
+
+/**
+ * Throws a ValidationError if the metadata is not a valid NodeMetadata of the current version.
+ */
+export function validateNodeMetadata(metadata: NodeMetadata): void | never {
+	if (metadata.version !== VERSION) {
+		throw new UnsupportedVersionError(
+			metadata.version,
+			`Supported versions: [${VERSION}]`
+		);
+	}
+	validateIsNotEmptyString('http', metadata.http);
+	validateUrl('http', metadata.http, ['http:', 'https:']);
+	validateIsString('ws', metadata.ws, true);
+	if (metadata.ws != null) {
+		validateUrl('ws', metadata.ws, ['ws:', 'wss:']);
+	}
+	validateIsString('region', metadata.region, true);
+	validateIsArray('queryTypes', metadata.queryTypes);
+	for (const queryType of metadata.queryTypes) {
+		validateIsOneOf('queryTypes', queryType, Object.values(QueryType));
+	}
+	validateIsArray('queryFormats', metadata.queryFormats);
+	for (const queryFormat of metadata.queryFormats) {
+		validateIsNotEmptyString('queryFormats', queryFormat);
+	}
+	validateIsNotNegativeInteger('protocolVersion', metadata.protocolVersion);
+}
+
+/**
+ * Builds the metadata of a node, by default advertising every query type and format
+ * and the latest protocol version.
+ */
+export function createNodeMetadata(options: NodeMetadataOptions): NodeMetadata {
+	const metadata: NodeMetadata = {
+		queryTypes: Object.values(QueryType),
+		queryFormats: [...DEFAULT_QUERY_FORMATS],
+		protocolVersion: SystemMessage.LATEST_VERSION,
+		...options,
+		version: VERSION,
+	};
+	validateNodeMetadata(metadata);
+	return metadata;
+}
+
+/**
+ * Returns a copy of the metadata with the changes applied, e.g. to move a node to a new endpoint.
+ */
+export function updateNodeMetadata(
+	metadata: NodeMetadata,
+	changes: Partial<NodeMetadataOptions>
+): NodeMetadata {
+	return createNodeMetadata({ ...metadata, ...changes });
+}
+
+export function serializeNodeMetadata(metadata: NodeMetadata): string {
+	validateNodeMetadata(metadata);
+	return JSON.stringify(metadata);
+}
+
+/**
+ * Parses and validates the metadata registered by a node. The unversioned metadata of the nodes
+ * registered before the metadata was versioned, holding only the HTTP endpoint, is upgraded to
+ * the current version with the query types and formats those nodes serve.
+ */
+export function parseNodeMetadata(serialized: string): NodeMetadata {
+	let metadata: Record<string, unknown>;
+	try {
+		metadata = JSON.parse(serialized);
+	} catch (err) {
+		throw new ValidationError(`Invalid node metadata: ${serialized}`);
+	}
+	if (
+		typeof metadata !== 'object' ||
+		metadata === null ||
+		Array.isArray(metadata)
+	) {
+		throw new ValidationError(`Invalid node metadata: ${serialized}`);
+	}
+	if (metadata.version === undefined) {
+		return createNodeMetadata({
+			queryTypes: [...LEGACY_QUERY_TYPES],
+			queryFormats: [...LEGACY_QUERY_FORMATS],
+			...(metadata as unknown as NodeMetadataOptions),
+		});
+	}
+	validateNodeMetadata(metadata as unknown as NodeMetadata);
+	return metadata as unknown as NodeMetadata;
+}
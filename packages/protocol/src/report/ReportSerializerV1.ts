@@ -8,6 +8,7 @@ import {
 import { ReportSerializer } from '../abstracts/ReportSerializer';
 import {
 	ReportContractParams,
+	ReportContractStruct,
 	ReportSerializerVersions,
 } from '../interfaces/report.common';
 import {
@@ -175,6 +176,42 @@ export class ReportSeralizerV1 extends ReportSerializer {
 		return params;
 	}
 
+	// ? Rebuild the report from the struct stored on-chain. The events are not stored on-chain
+	fromContract(report: ReportContractStruct): IReportV1 {
+		const nodes: ReportV1Nodes = {};
+		report.nodes.forEach(({ id, amount }) => {
+			nodes[id] = BigNumber.from(amount);
+		});
+
+		const delegates: ReportV1Delegates = {};
+		report.delegates.forEach(({ id, nodes: delegateNodes }) => {
+			delegates[id] = {};
+			delegateNodes.forEach((node) => {
+				delegates[id][node.id] = BigNumber.from(node.amount);
+			});
+		});
+
+		return {
+			s: false,
+			v: ReportSerializerVersions.V1,
+			id: report.id,
+			height: BigNumber.from(report.height).toNumber(),
+			treasury: BigNumber.from(report.treasury),
+			streams: report.streams.map((p) => ({
+				id: p.id,
+				capture: BigNumber.from(p.writeCapture),
+				bytes: BigNumber.from(p.writeBytes).toNumber(),
+			})),
+			consumers: report.consumers.map((p) => ({
+				id: p.id,
+				capture: BigNumber.from(p.readCapture),
+				bytes: BigNumber.from(p.readBytes).toNumber(),
+			})),
+			nodes,
+			delegates,
+		};
+	}
+
 	// ? Produce a deterministic hash based on the parameters provided to the on-chain env
 	// Accepts a timestamp to produce an TOTH (Time-based One-time Hash)
 	toHash(payload: IReportV1 | IReportV1Serialized, timestamp?: number): string {
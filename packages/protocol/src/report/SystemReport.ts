@@ -3,7 +3,10 @@ import { arrayify } from '@ethersproject/bytes';
 
 import { ReportSerializer } from '../abstracts/ReportSerializer';
 import { ValidationError } from '../errors';
-import { ReportSerializerVersions } from '../interfaces/report.common';
+import {
+	ReportContractStruct,
+	ReportSerializerVersions,
+} from '../interfaces/report.common';
 import { IReportV1, IReportV1Serialized } from '../interfaces/report.v1';
 import { ProofOfReport } from '../system/ProofOfReport';
 
@@ -90,6 +93,17 @@ export class SystemReport {
 		return serializer.toHash(this.report, timestamp);
 	}
 
+	/**
+	 * Rebuilds a report from the struct returned by the report manager contract.
+	 */
+	static fromContract(
+		report: ReportContractStruct,
+		version = LATEST_VERSION
+	): SystemReport {
+		const serializer = SystemReport.getSerializer(version);
+		return new SystemReport(serializer.fromContract(report), version);
+	}
+
 	static registerSerializer(
 		version: ReportSerializerVersions,
 		serializer: ReportSerializer
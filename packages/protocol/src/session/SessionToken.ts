@@ -0,0 +1,159 @@
+import { verifyMessage } from '@ethersproject/wallet';
+
+import UnsupportedVersionError from '../errors/UnsupportedVersionError';
+import ValidationError from '../errors/ValidationError';
+import {
+	validateIsNotEmptyString,
+	validateIsNotNegativeInteger,
+} from '../utils/validations';
+
+const VERSION = 1;
+
+interface SessionTokenOptions {
+	version?: number;
+	address: string;
+	issuedAt: number;
+	expiresAt: number;
+	nonce: string;
+	signature?: string;
+}
+
+/**
+ * Authenticates the queries of a client for a limited time, so that the client signs once
+ * per session instead of once per query. The client signs the challenge of the token with its
+ * address, and the nodes accept the token until it expires.
+ */
+export class SessionToken {
+	version: number;
+	address: string;
+	issuedAt: number;
+	expiresAt: number;
+	nonce: string;
+	signature?: string;
+
+	constructor({
+		version = VERSION,
+		address,
+		issuedAt,
+		expiresAt,
+		nonce,
+		signature,
+	}: SessionTokenOptions) {
+		validateIsNotEmptyString('address', address);
+		validateIsNotNegativeInteger('issuedAt', issuedAt);
+		validateIsNotNegativeInteger('expiresAt', expiresAt);
+		validateIsNotEmptyString('nonce', nonce);
+		if (expiresAt <= issuedAt) {
+			throw new ValidationError(
+				`Expected expiresAt (${expiresAt}) to be after issuedAt (${issuedAt}).`
+			);
+		}
+
+		this.version = version;
+		this.address = address;
+		this.issuedAt = issuedAt;
+		this.expiresAt = expiresAt;
+		this.nonce = nonce;
+		this.signature = signature;
+	}
+
+	/**
+	 * The text signed by the client, and verified by the nodes against the address.
+	 */
+	getChallenge(): string {
+		return [
+			'Log Store session',
+			`Address: ${this.address}`,
+			`Issued at: ${this.issuedAt}`,
+			`Expires at: ${this.expiresAt}`,
+			`Nonce: ${this.nonce}`,
+		].join('\n');
+	}
+
+	isExpired(now = Date.now()): boolean {
+		return now >= this.expiresAt;
+	}
+
+	/**
+	 * Checks that the challenge is signed by the address of the token, and that the token has
+	 * not expired, as the nodes do before accepting it. Throws a ValidationError with the
+	 * `INVALID_SIGNATURE` or the `SESSION_TOKEN_EXPIRED` code otherwise.
+	 */
+	verify(now = Date.now()): void {
+		if (this.signature === undefined) {
+			throw new ValidationError(
+				'Expected the session token to be signed.',
+				'INVALID_SIGNATURE'
+			);
+		}
+
+		let signer: string;
+		try {
+			signer = verifyMessage(this.getChallenge(), this.signature);
+		} catch (err) {
+			throw new ValidationError(
+				`Invalid session token signature: ${this.signature}`,
+				'INVALID_SIGNATURE'
+			);
+		}
+		if (signer.toLowerCase() !== this.address.toLowerCase()) {
+			throw new ValidationError(
+				`Expected the session token to be signed by ${this.address}, but it was signed by ${signer}.`,
+				'INVALID_SIGNATURE'
+			);
+		}
+
+		if (this.isExpired(now)) {
+			throw new ValidationError(
+				`Session token expired at ${this.expiresAt}.`,
+				'SESSION_TOKEN_EXPIRED'
+			);
+		}
+	}
+
+	serialize(): string {
+		if (this.signature === undefined) {
+			throw new ValidationError('Expected the session token to be signed.');
+		}
+		return Buffer.from(
+			JSON.stringify([
+				this.version,
+				this.address,
+				this.issuedAt,
+				this.expiresAt,
+				this.nonce,
+				this.signature,
+			]),
+			'utf8'
+		).toString('base64');
+	}
+
+	static deserialize(token: string): SessionToken {
+		let arr: any[];
+		try {
+			arr = JSON.parse(Buffer.from(token, 'base64').toString('utf8'));
+		} catch (err) {
+			throw new ValidationError(`Invalid session token: ${token}`);
+		}
+		if (!Array.isArray(arr)) {
+			throw new ValidationError(`Invalid session token: ${token}`);
+		}
+		if (arr[0] !== VERSION) {
+			throw new UnsupportedVersionError(
+				arr[0],
+				`Supported versions: [${VERSION}]`
+			);
+		}
+
+		const [version, address, issuedAt, expiresAt, nonce, signature] = arr;
+		validateIsNotEmptyString('signature', signature);
+		return new SessionToken({
+			version,
+			address,
+			issuedAt,
+			expiresAt,
+			nonce,
+			signature,
+		});
+	}
+}
@@ -8,6 +8,16 @@ export enum QueryType {
 	Last = 'last',
 	From = 'from',
 	Range = 'range',
+	Aggregate = 'aggregate',
+	LastBefore = 'lastBefore',
+}
+
+export enum AggregateFunction {
+	Count = 'count',
+	Sum = 'sum',
+	Min = 'min',
+	Max = 'max',
+	Avg = 'avg',
 }
 
 export interface QueryRef {
@@ -15,11 +25,28 @@ export interface QueryRef {
 	sequenceNumber?: number;
 }
 
+export type QueryFilterValue = string | number | boolean | null;
+
+/**
+ * A predicate on a field of the message content, addressed by a JSON path.
+ */
+export interface QueryFilter {
+	path: string;
+	eq?: QueryFilterValue;
+	ne?: QueryFilterValue;
+	gt?: number | string;
+	gte?: number | string;
+	lt?: number | string;
+	lte?: number | string;
+	exists?: boolean;
+}
+
 /**
  * Query the latest "n" messages.
  */
 export interface QueryLastOptions {
 	last: number;
+	filter?: QueryFilter[];
 }
 
 /**
@@ -28,6 +55,7 @@ export interface QueryLastOptions {
 export interface QueryFromOptions {
 	from: QueryRef;
 	publisherId?: string;
+	filter?: QueryFilter[];
 }
 
 /**
@@ -38,6 +66,31 @@ export interface QueryRangeOptions {
 	to: QueryRef;
 	msgChainId?: string;
 	publisherId?: string;
+	filter?: QueryFilter[];
+}
+
+/**
+ * Query the latest "n" messages at or before a given point in time.
+ */
+export interface QueryLastBeforeOptions {
+	last: number;
+	before: QueryRef;
+	filter?: QueryFilter[];
+}
+
+/**
+ * Aggregate a numeric field of the messages between two points in time into time buckets.
+ */
+export interface QueryAggregateOptions {
+	from: QueryRef;
+	to: QueryRef;
+	/** JSON path of the numeric content field */
+	field: string;
+	/** The length of a bucket in milliseconds */
+	interval: number;
+	functions: AggregateFunction[];
+	publisherId?: string;
+	filter?: QueryFilter[];
 }
 
 /**
@@ -46,7 +99,9 @@ export interface QueryRangeOptions {
 export type QueryOptions =
 	| QueryLastOptions
 	| QueryFromOptions
-	| QueryRangeOptions;
+	| QueryRangeOptions
+	| QueryAggregateOptions
+	| QueryLastBeforeOptions;
 
 interface QueryRequestOptions extends SystemMessageOptions {
 	requestId: string;
@@ -1,6 +1,9 @@
 import { Serializer } from '../abstracts/Serializer';
 import {
+	QueryAggregateOptions,
+	QueryFilter,
 	QueryFromOptions,
+	QueryLastBeforeOptions,
 	QueryLastOptions,
 	QueryOptions,
 	QueryRangeOptions,
@@ -46,6 +49,31 @@ export default class QueryRequestSerializerV1 extends Serializer<QueryRequest> {
 				result.push(rangeOptions.msgChainId);
 				result.push(rangeOptions.publisherId);
 				break;
+			case QueryType.Aggregate:
+				// eslint-disable-next-line no-case-declarations
+				const aggregateOptions = message.queryOptions as QueryAggregateOptions;
+				result.push(aggregateOptions.from.timestamp);
+				result.push(aggregateOptions.from.sequenceNumber);
+				result.push(aggregateOptions.to.timestamp);
+				result.push(aggregateOptions.to.sequenceNumber);
+				result.push(aggregateOptions.publisherId);
+				result.push(aggregateOptions.field);
+				result.push(aggregateOptions.interval);
+				result.push(aggregateOptions.functions);
+				break;
+			case QueryType.LastBefore:
+				// eslint-disable-next-line no-case-declarations
+				const lastBeforeOptions =
+					message.queryOptions as QueryLastBeforeOptions;
+				result.push(lastBeforeOptions.last);
+				result.push(lastBeforeOptions.before.timestamp);
+				result.push(lastBeforeOptions.before.sequenceNumber);
+				break;
+		}
+
+		// The filter is appended only when given, so unfiltered queries are encoded as before
+		if (message.queryOptions.filter !== undefined) {
+			result.push(message.queryOptions.filter);
 		}
 
 		return result;
@@ -64,9 +92,11 @@ export default class QueryRequestSerializerV1 extends Serializer<QueryRequest> {
 		] = arr;
 
 		let queryOptions: QueryOptions;
+		let filter: QueryFilter[] | undefined;
 		switch (queryType as QueryType) {
 			case QueryType.Last:
 				queryOptions = { last: queryOptionsArr[0] };
+				filter = queryOptionsArr[1];
 				break;
 			case QueryType.From:
 				queryOptions = {
@@ -76,6 +106,7 @@ export default class QueryRequestSerializerV1 extends Serializer<QueryRequest> {
 					},
 					publisherId: queryOptionsArr[2],
 				};
+				filter = queryOptionsArr[3];
 				break;
 			case QueryType.Range:
 				queryOptions = {
@@ -90,7 +121,39 @@ export default class QueryRequestSerializerV1 extends Serializer<QueryRequest> {
 					msgChainId: queryOptionsArr[4],
 					publisherId: queryOptionsArr[5],
 				};
+				filter = queryOptionsArr[6];
 				break;
+			case QueryType.Aggregate:
+				queryOptions = {
+					from: {
+						timestamp: queryOptionsArr[0],
+						sequenceNumber: queryOptionsArr[1],
+					},
+					to: {
+						timestamp: queryOptionsArr[2],
+						sequenceNumber: queryOptionsArr[3],
+					},
+					publisherId: queryOptionsArr[4],
+					field: queryOptionsArr[5],
+					interval: queryOptionsArr[6],
+					functions: queryOptionsArr[7],
+				};
+				filter = queryOptionsArr[8];
+				break;
+			case QueryType.LastBefore:
+				queryOptions = {
+					last: queryOptionsArr[0],
+					before: {
+						timestamp: queryOptionsArr[1],
+						sequenceNumber: queryOptionsArr[2],
+					},
+				};
+				filter = queryOptionsArr[3];
+				break;
+		}
+
+		if (filter !== undefined) {
+			queryOptions.filter = filter;
 		}
 
 		return new QueryRequest({
@@ -1,7 +1,12 @@
 import { ProofOfMessageStored } from './ProofOfMessageStored';
 import { ProofOfReport } from './ProofOfReport';
 import {
+	AggregateFunction,
+	QueryAggregateOptions,
+	QueryFilter,
+	QueryFilterValue,
 	QueryFromOptions,
+	QueryLastBeforeOptions,
 	QueryLastOptions,
 	QueryOptions,
 	QueryRangeOptions,
@@ -22,5 +27,10 @@ export {
 	QueryLastOptions,
 	QueryRangeOptions,
 	QueryFromOptions,
+	QueryFilter,
+	QueryFilterValue,
+	QueryAggregateOptions,
+	AggregateFunction,
+	QueryLastBeforeOptions,
 	ProofOfReport,
 };
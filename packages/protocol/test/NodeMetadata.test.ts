@@ -0,0 +1,105 @@
+import assert from 'assert';
+
+import { UnsupportedVersionError, ValidationError } from '../src/errors';
+import {
+	createNodeMetadata,
+	parseNodeMetadata,
+	serializeNodeMetadata,
+	updateNodeMetadata,
+} from '../src/node/NodeMetadata';
+import { QueryType } from '../src/system';
+
+const metadata = {
+	version: 1,
+	http: 'https://node.example.com',
+	ws: 'wss://node.example.com',
+	region: 'eu-west',
+	queryTypes: [QueryType.Last, QueryType.Range],
+	queryFormats: ['raw'],
+	protocolVersion: 1,
+};
+
+describe('NodeMetadata', () => {
+	describe('createNodeMetadata', () => {
+		it('fills in the defaults', () => {
+			assert.deepStrictEqual(
+				createNodeMetadata({ http: 'https://node.example.com' }),
+				{
+					version: 1,
+					http: 'https://node.example.com',
+					queryTypes: Object.values(QueryType),
+					queryFormats: ['raw', 'object'],
+					protocolVersion: 1,
+				}
+			);
+		});
+
+		it('rejects endpoints which are not URLs', () => {
+			assert.throws(
+				() => createNodeMetadata({ http: 'node.example.com' }),
+				ValidationError
+			);
+			assert.throws(
+				() =>
+					createNodeMetadata({
+						http: 'https://node.example.com',
+						ws: 'https://node.example.com',
+					}),
+				ValidationError
+			);
+		});
+
+		it('rejects unknown query types', () => {
+			assert.throws(
+				() =>
+					createNodeMetadata({
+						http: 'https://node.example.com',
+						queryTypes: ['unknown' as QueryType],
+					}),
+				ValidationError
+			);
+		});
+	});
+
+	it('updates the metadata', () => {
+		assert.deepStrictEqual(
+			updateNodeMetadata(metadata, { http: 'https://other.example.com' }),
+			{ ...metadata, http: 'https://other.example.com' }
+		);
+	});
+
+	describe('parseNodeMetadata', () => {
+		it('parses serialized metadata', () => {
+			assert.deepStrictEqual(
+				parseNodeMetadata(serializeNodeMetadata(metadata)),
+				metadata
+			);
+		});
+
+		it('upgrades unversioned metadata with the legacy query types and formats', () => {
+			assert.deepStrictEqual(
+				parseNodeMetadata('{"http":"https://node.example.com"}'),
+				{
+					version: 1,
+					http: 'https://node.example.com',
+					queryTypes: [QueryType.Last, QueryType.From, QueryType.Range],
+					queryFormats: ['raw'],
+					protocolVersion: 1,
+				}
+			);
+		});
+
+		it('rejects invalid metadata', () => {
+			assert.throws(() => parseNodeMetadata('http'), ValidationError);
+			assert.throws(() => parseNodeMetadata('[]'), ValidationError);
+			assert.throws(() => parseNodeMetadata('{}'), ValidationError);
+		});
+
+		it('rejects unsupported versions', () => {
+			assert.throws(
+				() => parseNodeMetadata(JSON.stringify({ ...metadata, version: 2 })),
+				UnsupportedVersionError
+			);
+		});
+	});
+});
@@ -1,7 +1,11 @@
 import assert from 'assert';
 
 import { SystemMessage, SystemMessageType } from '../src/system';
-import { QueryRequest, QueryType } from '../src/system/QueryRequest';
+import {
+	AggregateFunction,
+	QueryRequest,
+	QueryType,
+} from '../src/system/QueryRequest';
 import '../src/system/QueryRequestSerializerV1';
 
 const VERSION = 1;
@@ -28,6 +32,92 @@ const serializedMessage = JSON.stringify([
 	2,
 ]);
 
+const filteredMessage = new QueryRequest({
+	version: VERSION,
+	requestId: 'requestId',
+	consumerId: 'consumerId',
+	streamId: 'streamId',
+	partition: 42,
+	queryType: QueryType.From,
+	queryOptions: {
+		from: { timestamp: 1000, sequenceNumber: 0 },
+		publisherId: 'publisherId',
+		filter: [{ path: '$.temperature', gte: 20 }],
+	},
+});
+
+const serializedFilteredMessage = JSON.stringify([
+	VERSION,
+	SystemMessageType.QueryRequest,
+	'requestId',
+	'consumerId',
+	'streamId',
+	42,
+	QueryType.From,
+	1000,
+	0,
+	'publisherId',
+	[{ path: '$.temperature', gte: 20 }],
+]);
+
+const aggregateMessage = new QueryRequest({
+	version: VERSION,
+	requestId: 'requestId',
+	consumerId: 'consumerId',
+	streamId: 'streamId',
+	partition: 42,
+	queryType: QueryType.Aggregate,
+	queryOptions: {
+		from: { timestamp: 1000, sequenceNumber: 0 },
+		to: { timestamp: 2000, sequenceNumber: 0 },
+		publisherId: 'publisherId',
+		field: '$.temperature',
+		interval: 100,
+		functions: [AggregateFunction.Count, AggregateFunction.Avg],
+	},
+});
+
+const serializedAggregateMessage = JSON.stringify([
+	VERSION,
+	SystemMessageType.QueryRequest,
+	'requestId',
+	'consumerId',
+	'streamId',
+	42,
+	QueryType.Aggregate,
+	1000,
+	0,
+	2000,
+	0,
+	'publisherId',
+	'$.temperature',
+	100,
+	['count', 'avg'],
+]);
+
+const lastBeforeMessage = new QueryRequest({
+	version: VERSION,
+	requestId: 'requestId',
+	consumerId: 'consumerId',
+	streamId: 'streamId',
+	partition: 42,
+	queryType: QueryType.LastBefore,
+	queryOptions: { last: 2, before: { timestamp: 1000, sequenceNumber: 3 } },
+});
+
+const serializedLastBeforeMessage = JSON.stringify([
+	VERSION,
+	SystemMessageType.QueryRequest,
+	'requestId',
+	'consumerId',
+	'streamId',
+	42,
+	QueryType.LastBefore,
+	2,
+	1000,
+	3,
+]);
+
 // TODO: Test QueryType.From
 // TODO: Test QueryType.Range
 describe('QueryRequestSerializerV1', () => {
@@ -38,10 +128,46 @@ describe('QueryRequestSerializerV1', () => {
 				message
 			);
 		});
+		it('correctly parses filtered messages', () => {
+			assert.deepStrictEqual(
+				SystemMessage.deserialize(serializedFilteredMessage),
+				filteredMessage
+			);
+		});
+		it('correctly parses aggregate messages', () => {
+			assert.deepStrictEqual(
+				SystemMessage.deserialize(serializedAggregateMessage),
+				aggregateMessage
+			);
+		});
+		it('correctly parses last before messages', () => {
+			assert.deepStrictEqual(
+				SystemMessage.deserialize(serializedLastBeforeMessage),
+				lastBeforeMessage
+			);
+		});
 	});
 	describe('serialize', () => {
 		it('correctly serializes messages', () => {
 			assert.deepStrictEqual(message.serialize(VERSION, 32), serializedMessage);
 		});
+		it('correctly serializes filtered messages', () => {
+			assert.deepStrictEqual(
+				filteredMessage.serialize(VERSION, 32),
+				serializedFilteredMessage
+			);
+		});
+		it('correctly serializes aggregate messages', () => {
+			assert.deepStrictEqual(
+				aggregateMessage.serialize(VERSION, 32),
+				serializedAggregateMessage
+			);
+		});
+		it('correctly serializes last before messages', () => {
+			assert.deepStrictEqual(
+				lastBeforeMessage.serialize(VERSION, 32),
+				serializedLastBeforeMessage
+			);
+		});
 	});
 });
@@ -0,0 +1,150 @@
+import { Wallet } from '@ethersproject/wallet';
+import assert from 'assert';
+
+import { UnsupportedVersionError, ValidationError } from '../src/errors';
+import { SessionToken } from '../src/session/SessionToken';
+
+const VERSION = 1;
+
+const token = new SessionToken({
+	version: VERSION,
+	address: '0x1234567890123456789012345678901234567890',
+	issuedAt: 1000,
+	expiresAt: 2000,
+	nonce: 'nonce',
+	signature: '0123456789ABCDEF',
+});
+
+const serializedToken = Buffer.from(
+	JSON.stringify([
+		VERSION,
+		'0x1234567890123456789012345678901234567890',
+		1000,
+		2000,
+		'nonce',
+		'0123456789ABCDEF',
+	])
+).toString('base64');
+
+describe('SessionToken', () => {
+	describe('deserialize', () => {
+		it('correctly parses tokens', () => {
+			assert.deepStrictEqual(SessionToken.deserialize(serializedToken), token);
+		});
+
+		it('rejects unsigned tokens', () => {
+			const unsigned = Buffer.from(
+				JSON.stringify([VERSION, '0x1234', 1000, 2000, 'nonce'])
+			).toString('base64');
+			assert.throws(() => SessionToken.deserialize(unsigned), ValidationError);
+		});
+
+		it('rejects unsupported versions', () => {
+			const unsupported = Buffer.from(
+				JSON.stringify([2, '0x1234', 1000, 2000, 'nonce', 'signature'])
+			).toString('base64');
+			assert.throws(
+				() => SessionToken.deserialize(unsupported),
+				UnsupportedVersionError
+			);
+		});
+	});
+
+	describe('serialize', () => {
+		it('correctly serializes tokens', () => {
+			assert.deepStrictEqual(token.serialize(), serializedToken);
+		});
+	});
+
+	it('expires at expiresAt', () => {
+		assert.strictEqual(token.isExpired(1999), false);
+		assert.strictEqual(token.isExpired(2000), true);
+	});
+
+	describe('verify', () => {
+		const wallet = new Wallet(
+			'0x0123456789012345678901234567890123456789012345678901234567890123'
+		);
+
+		const signToken = async (
+			address: string,
+			signer = wallet
+		): Promise<SessionToken> => {
+			const signedToken = new SessionToken({
+				address,
+				issuedAt: 1000,
+				expiresAt: 2000,
+				nonce: 'nonce',
+			});
+			signedToken.signature = await signer.signMessage(
+				signedToken.getChallenge()
+			);
+			return signedToken;
+		};
+
+		const assertRejected = (
+			signedToken: SessionToken,
+			code: string,
+			now = 1500
+		) => {
+			assert.throws(
+				() => signedToken.verify(now),
+				(err: unknown) => err instanceof ValidationError && err.code === code
+			);
+		};
+
+		it('accepts tokens signed by their address', async () => {
+			const signedToken = await signToken(wallet.address);
+			assert.doesNotThrow(() => signedToken.verify(1500));
+		});
+
+		it('accepts tokens whose address differs only by its case', async () => {
+			const signedToken = await signToken(wallet.address.toLowerCase());
+			assert.doesNotThrow(() => signedToken.verify(1500));
+		});
+
+		it('rejects tokens signed by another address', async () => {
+			const signedToken = await signToken(
+				wallet.address,
+				new Wallet(
+					'0x1111111111111111111111111111111111111111111111111111111111111111'
+				)
+			);
+			assertRejected(signedToken, 'INVALID_SIGNATURE');
+		});
+
+		it('rejects tokens whose challenge was altered', async () => {
+			const signedToken = await signToken(wallet.address);
+			signedToken.expiresAt = 3000;
+			assertRejected(signedToken, 'INVALID_SIGNATURE');
+		});
+
+		it('rejects invalid signatures', () => {
+			assertRejected(token, 'INVALID_SIGNATURE');
+		});
+
+		it('rejects unsigned tokens', async () => {
+			const signedToken = await signToken(wallet.address);
+			signedToken.signature = undefined;
+			assertRejected(signedToken, 'INVALID_SIGNATURE');
+		});
+
+		it('rejects expired tokens', async () => {
+			const signedToken = await signToken(wallet.address);
+			assertRejected(signedToken, 'SESSION_TOKEN_EXPIRED', 2000);
+		});
+	});
+
+	it('rejects tokens expiring before they are issued', () => {
+		assert.throws(
+			() =>
+				new SessionToken({
+					address: '0x1234',
+					issuedAt: 2000,
+					expiresAt: 1000,
+					nonce: 'nonce',
+				}),
+			ValidationError
+		);
+	});
+});
@@ -222,6 +222,50 @@ describe('SystemReport', () => {
 		});
 	});
 
+	describe('fromContract', () => {
+		const PAYLOAD_STRUCT = {
+			id: PAYLOAD.id,
+			height: BigNumber.from(PAYLOAD.height),
+			treasury: PAYLOAD.treasury,
+			streams: PAYLOAD.streams.map(({ id, capture, bytes }) => ({
+				id,
+				writeCapture: capture,
+				writeBytes: BigNumber.from(bytes),
+			})),
+			nodes: Object.entries(PAYLOAD.nodes).map(([id, amount]) => ({
+				id,
+				amount,
+			})),
+			delegates: Object.entries(PAYLOAD.delegates).map(([id, nodes]) => ({
+				id,
+				nodes: Object.entries(nodes).map(([nodeId, amount]) => ({
+					id: nodeId,
+					amount,
+				})),
+			})),
+			consumers: PAYLOAD.consumers.map(({ id, capture, bytes }) => ({
+				id,
+				readCapture: capture,
+				readBytes: BigNumber.from(bytes),
+			})),
+		};
+
+		it('should rebuild the report without its events', () => {
+			const { events: _events, ...signedPayload } = PAYLOAD;
+			assert.deepStrictEqual(
+				SystemReport.fromContract(PAYLOAD_STRUCT).deserialize(),
+				signedPayload
+			);
+		});
+		it('should produce the hash of the original report', () => {
+			const timestamp = Date.now();
+			assert.strictEqual(
+				SystemReport.fromContract(PAYLOAD_STRUCT).toHash(timestamp),
+				systemReport.toHash(timestamp)
+			);
+		});
+	});
+
 	describe('getSupportedVersions', () => {
 		it('returns an array of registered versions', () => {
 			assert.deepStrictEqual(SystemReport.getSupportedVersions(), [
@@ -13,4 +13,5 @@ export {
 } from './prepareStake';
 export { getTokenPrice } from './getTokenPrice';
 export { convertFromUsd } from './convertFromUsd';
+export { readFeeMultiplier } from './fees';
 export * from './types';
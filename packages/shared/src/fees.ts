@@ -0,0 +1,2 @@
+// See validator code. Should optimised to read from network
+export const readFeeMultiplier = 0.05;
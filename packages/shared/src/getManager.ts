@@ -11,7 +11,7 @@ import {
 	LSAN__factory,
 } from '@logsn/contracts';
 import ContractAddresses from '@logsn/contracts/address.json';
-import { providers, Signer, Wallet } from 'ethers';
+import { providers, Signer } from 'ethers';
 
 import { Manager, Network } from './types';
 
@@ -42,15 +42,22 @@ export async function getStoreManagerContract(
 	)) as LogStoreManager;
 }
 
-export async function getReportManagerContract(wallet: Wallet) {
+export async function getReportManagerContract(
+	signerOrProvider: Signer | providers.Provider
+) {
 	return (await getManagerContract(
-		wallet,
+		signerOrProvider,
 		Manager.ReportManager
 	)) as LogStoreReportManager;
 }
 
-export async function getTokenManagerContract(wallet: Wallet) {
-	return (await getManagerContract(wallet, Manager.TokenManager)) as LSAN;
+export async function getTokenManagerContract(
+	signerOrProvider: Signer | providers.Provider
+) {
+	return (await getManagerContract(
+		signerOrProvider,
+		Manager.TokenManager
+	)) as LSAN;
 }
 
 export async function getManagerContract(
@@ -1,10 +1,12 @@
 import {
 	AdminChanged as AdminChangedEvent,
 	BeaconUpgraded as BeaconUpgradedEvent,
+	CaptureOverflow as CaptureOverflowEvent,
 	DataStored as DataStoredEvent,
 	Initialized as InitializedEvent,
 	OwnershipTransferred as OwnershipTransferredEvent,
 	StoreUpdated as StoreUpdatedEvent,
+	StoreWithdrawn as StoreWithdrawnEvent,
 	Upgraded as UpgradedEvent,
 } from '../generated/LogStoreManager/LogStoreManager';
 import {
@@ -13,7 +15,9 @@ import {
 	DataStored,
 	Initialized,
 	OwnershipTransferred,
+	StoreCaptureOverflow,
 	StoreUpdated,
+	StoreWithdrawn,
 	Upgraded,
 } from '../generated/schema';
 
@@ -44,6 +48,22 @@ export function handleBeaconUpgraded(event: BeaconUpgradedEvent): void {
 	entity.save();
 }
 
+export function handleCaptureOverflow(event: CaptureOverflowEvent): void {
+	let entity = new StoreCaptureOverflow(
+		event.transaction.hash.concatI32(event.logIndex.toI32())
+	);
+	entity.store = event.params.store;
+	entity.stake = event.params.stake;
+	entity.capture = event.params.capture;
+	entity.overflow = event.params.overflow;
+
+	entity.blockNumber = event.block.number;
+	entity.blockTimestamp = event.block.timestamp;
+	entity.transactionHash = event.transaction.hash;
+
+	entity.save();
+}
+
 export function handleDataStored(event: DataStoredEvent): void {
 	let entity = new DataStored(
 		event.transaction.hash.concatI32(event.logIndex.toI32())
@@ -103,6 +123,21 @@ export function handleStoreUpdated(event: StoreUpdatedEvent): void {
 	entity.save();
 }
 
+export function handleStoreWithdrawn(event: StoreWithdrawnEvent): void {
+	let entity = new StoreWithdrawn(
+		event.transaction.hash.concatI32(event.logIndex.toI32())
+	);
+	entity.store = event.params.store;
+	entity.isRemoved = event.params.isRemoved;
+	entity.amount = event.params.amount;
+
+	entity.blockNumber = event.block.number;
+	entity.blockTimestamp = event.block.timestamp;
+	entity.transactionHash = event.transaction.hash;
+
+	entity.save();
+}
+
 export function handleUpgraded(event: UpgradedEvent): void {
 	let entity = new Upgraded(
 		event.transaction.hash.concatI32(event.logIndex.toI32())
@@ -0,0 +1,36 @@
+import {
+	CaptureOverflow as CaptureOverflowEvent,
+	DataQueried as DataQueriedEvent,
+} from '../generated/LogStoreQueryManager/LogStoreQueryManager';
+import { DataQueried, QueryCaptureOverflow } from '../generated/schema';
+
+export function handleCaptureOverflow(event: CaptureOverflowEvent): void {
+	let entity = new QueryCaptureOverflow(
+		event.transaction.hash.concatI32(event.logIndex.toI32())
+	);
+	entity.consumer = event.params.consumer;
+	entity.stake = event.params.stake;
+	entity.capture = event.params.capture;
+	entity.overflow = event.params.overflow;
+
+	entity.blockNumber = event.block.number;
+	entity.blockTimestamp = event.block.timestamp;
+	entity.transactionHash = event.transaction.hash;
+
+	entity.save();
+}
+
+export function handleDataQueried(event: DataQueriedEvent): void {
+	let entity = new DataQueried(
+		event.transaction.hash.concatI32(event.logIndex.toI32())
+	);
+	entity.consumer = event.params.consumer;
+	entity.fees = event.params.fees;
+	entity.bytesProcessed = event.params.bytesProcessed;
+
+	entity.blockNumber = event.block.number;
+	entity.blockTimestamp = event.block.timestamp;
+	entity.transactionHash = event.transaction.hash;
+
+	entity.save();
+}